@@ -0,0 +1,119 @@
+import { createInterface } from 'node:readline'
+import { homedir } from 'node:os'
+import { join as joinPath } from 'node:path'
+import { parseArgs } from 'node:util'
+import { createClient, createRoom, type NoticeCode } from '../headless'
+import { getDefaultRelay, normalizeRelayUrl } from '../network/config'
+import { FileKeyValueStore, FileSecureStore } from '../storage/fileStore'
+
+const USAGE = `Usage:
+  parrhesia create [--relay <url>]
+  parrhesia join <room> [--relay <url>] [--state <dir>]
+
+Lines read from stdin are sent to the room. Decrypted messages are printed to stdout.`
+
+const DRAIN_TIMEOUT_MS = 10000
+
+const NOTICES: Partial<Record<NoticeCode, string>> = {
+  connection_failed: 'connection failed',
+  disconnected: 'disconnected',
+  reconnecting: 'reconnecting',
+  reconnected: 'reconnected',
+  room_expired: 'room expired',
+  room_full: 'room is full',
+  relay_incompatible: 'relay runs an incompatible protocol version',
+  waiting_for_peers: 'waiting for others to join',
+  waiting_for_key: 'waiting for encryption key',
+  ready: 'ready',
+  key_receive_failed: 'failed to receive encryption key',
+  group_version_unsupported: 'group uses an unsupported protocol version',
+  messages_undecryptable: 'some messages could not be decrypted',
+  message_key_evicted: 'a late message arrived after its key was discarded'
+}
+
+const FATAL_NOTICES = new Set<NoticeCode>(['connection_failed', 'disconnected', 'room_expired', 'room_full', 'relay_incompatible'])
+
+function log(text: string): void {
+  process.stderr.write(`* ${text}\n`)
+}
+
+function resolveRelay(value: string | undefined): string {
+  const relay = value ? normalizeRelayUrl(value) : getDefaultRelay()
+  if (!relay) throw new Error(`Invalid relay URL: ${value}`)
+  return relay
+}
+
+async function join(roomId: string, relay: string, stateDir: string): Promise<void> {
+  const connection = createClient(roomId, {
+    relay,
+    storage: { keyValue: new FileKeyValueStore(stateDir), secure: new FileSecureStore(stateDir) }
+  })
+  let pending = 0
+  let finished = false
+
+  connection.on('message', ({ color, text }) => process.stdout.write(`<${color}> ${text}\n`))
+  connection.on('peer_joined', ({ color }) => log(`${color} joined`))
+  connection.on('peer_left', ({ color }) => log(`${color} left`))
+  connection.on('security', event => log(event.kind === 'key_changed' ? `${event.color} was blocked due to key change` : `security: ${event.kind}`))
+  connection.on('delivery', ({ state }) => {
+    if (state === 'delivered' || state === 'failed') pending--
+  })
+  connection.on('notice', ({ code, count }) => {
+    const text = code === 'messages_undecryptable' && count !== undefined
+      ? `${count} message(s) could not be decrypted`
+      : NOTICES[code]
+    if (text) log(text)
+    if (FATAL_NOTICES.has(code)) {
+      finished = true
+      process.exitCode = 1
+      process.stdin.destroy()
+    }
+  })
+
+  await connection.connect()
+
+  const lines = createInterface({ input: process.stdin, terminal: false })
+  for await (const line of lines) {
+    const text = line.trim()
+    if (!text || finished) continue
+    pending++
+    await connection.sendMessage(text)
+  }
+
+  const deadline = Date.now() + DRAIN_TIMEOUT_MS
+  while (pending > 0 && !finished && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100))
+  }
+  connection.disconnect()
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      relay: { type: 'string' },
+      state: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const [command, roomId] = positionals
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+
+  const relay = resolveRelay(values.relay)
+  if (command === 'create') {
+    process.stdout.write(`${await createRoom(relay)}\n`)
+  } else if (command === 'join' && roomId) {
+    await join(roomId, relay, values.state ?? joinPath(homedir(), '.parrhesia'))
+  } else {
+    process.stderr.write(`${USAGE}\n`)
+    process.exitCode = 2
+  }
+}
+
+main().catch(e => {
+  process.stderr.write(`${e instanceof Error ? e.message : e}\n`)
+  process.exit(1)
+})
@@ -1,18 +1,14 @@
-import { MlKem768 } from 'mlkem'
-import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js'
-import { TreeKemState, deriveRootGroupKey, type TreeKemCommit, type TreeKemWelcome } from './treekem'
+import { generateMlKemKeyPair, generateSigningKeyPair, type MlKemKeyPair, type SigningKeyPair } from './primitives'
+import { TreeKemState, deriveRootGroupKey, pathEntryFields, type TreeKemCommit, type TreeKemWelcome } from './treekem'
+import { combineKeyPairs, concatBytes, generateX25519KeyPair, X25519_PUBLIC_KEY_LENGTH, type X25519KeyPair } from './kem'
 import { getOrCreateDeviceKey } from './deviceKey'
+import { SkippedKeyStore, type SkippedKeyMetrics } from './skippedKeys'
+import type { GroupState, SerializedChain } from './groupState'
+import { getKeyValueStore, type KeyValueStore, type StorageOptions } from '../storage/storage'
+import { callCrypto, onCryptoWorkerRestart } from './cryptoClient'
 export type { TreeKemCommit, TreeKemWelcome } from './treekem'
-
-export interface SigningKeyPair {
-  publicKey: Uint8Array
-  secretKey: Uint8Array
-}
-
-export interface MlKemKeyPair {
-  publicKey: Uint8Array
-  secretKey: Uint8Array
-}
+export { deriveMlKemKeyPair, generateMlKemKeyPair, generateSigningKeyPair, mlKemDecapsulate, mlKemEncapsulate, sign, verify } from './primitives'
+export type { MlKemKeyPair, SigningKeyPair } from './primitives'
 
 export const PEER_COLORS = [
   'black', 'gray', 'silver', 'maroon', 'red', 'olive',
@@ -39,7 +35,6 @@ const LEGACY_STORAGE_KEYS = ['parrhesia-keypair', 'parrhesia-keypair-wrapped', '
 interface ChainState {
   chainKey: Uint8Array
   counter: number
-  skippedKeys: Map<number, CryptoKey>
 }
 
 interface DeviceBoundKeyData {
@@ -57,17 +52,141 @@ export function isValidPublicKey(base64Key: string): boolean {
   }
 }
 
-export function sign(secretKey: Uint8Array, data: Uint8Array): Uint8Array {
-  return ml_dsa65.sign(data, secretKey)
+export const ML_DSA_SIGNATURE_LENGTH = 3309
+const MESSAGE_SIGNATURE_CONTEXT = 'parrhesia-message-v1'
+const COMMIT_SIGNATURE_CONTEXT = 'parrhesia-commit-v1'
+const WELCOME_SIGNATURE_CONTEXT = 'parrhesia-welcome-v1'
+const MESSAGE_ENVELOPE_CONTEXT = 'parrhesia-envelope'
+
+export const MESSAGE_ENVELOPE_VERSION = 1
+export const CONTENT_TYPE_TEXT = 1
+export const CONTENT_TYPE_DELIVERED = 2
+export const CONTENT_TYPE_READ = 3
+export const CONTENT_TYPE_TYPING = 4
+const CONTENT_TYPES = new Set([CONTENT_TYPE_TEXT, CONTENT_TYPE_DELIVERED, CONTENT_TYPE_READ, CONTENT_TYPE_TYPING])
+
+export class MessageAuthenticationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageAuthenticationError'
+  }
+}
+
+export class SkippedKeyEvictedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SkippedKeyEvictedError'
+  }
+}
+
+export class EpochForkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EpochForkError'
+  }
+}
+
+export type CommitOutcome = 'applied' | 'replaced' | 'ignored'
+
+export interface CommitRank {
+  committerLeafPos: number
+  hash: string
+}
+
+export interface EpochRetention {
+  maxEpochs: number
+  maxAgeMs: number
+}
+
+export const DEFAULT_EPOCH_RETENTION: EpochRetention = { maxEpochs: 3, maxAgeMs: 2 * 60 * 1000 }
+
+interface RetainedEpoch {
+  chains: Map<string, ChainState>
+  leafPositions: Map<string, number>
+  retiredAt: number
+}
+
+export interface MessageEnvelopeHeader {
+  version: number
+  contentType: number
+  roomId: string
+  epoch: number
+  senderLeaf: number
+  counter: number
+}
+
+export interface DecryptedMessage {
+  text: string
+  contentType: number
 }
 
-export function verify(publicKey: Uint8Array, data: Uint8Array, signature: Uint8Array): boolean {
-  return ml_dsa65.verify(signature, data, publicKey)
+interface ForkPoint {
+  epoch: number
+  tree: TreeKemState
+  winner: CommitRank
 }
 
-export function generateSigningKeyPair(): SigningKeyPair {
-  const { publicKey, secretKey } = ml_dsa65.keygen()
-  return { publicKey, secretKey }
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+export function messageSignatureInput(peerId: string, epoch: number, counter: number, body: Uint8Array): Uint8Array {
+  const header = new TextEncoder().encode(`${MESSAGE_SIGNATURE_CONTEXT}\0${peerId}\0${epoch}\0${counter}\0`)
+  const input = new Uint8Array(header.length + body.length)
+  input.set(header)
+  input.set(body, header.length)
+  return input
+}
+
+export function envelopeAssociatedData(header: MessageEnvelopeHeader): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    MESSAGE_ENVELOPE_CONTEXT,
+    header.version,
+    header.contentType,
+    header.roomId,
+    header.epoch,
+    header.senderLeaf,
+    header.counter
+  ]))
+}
+
+export function commitSignatureInput(roomId: string, commit: TreeKemCommit): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    COMMIT_SIGNATURE_CONTEXT,
+    roomId,
+    commit.epoch,
+    commit.treeHash,
+    commit.committerLeafPos,
+    commit.leafPublicKey,
+    commit.path.map(pathEntryFields)
+  ]))
+}
+
+export async function commitRank(roomId: string, commit: TreeKemCommit): Promise<CommitRank> {
+  const digest = await crypto.subtle.digest('SHA-256', commitSignatureInput(roomId, commit) as BufferSource)
+  return { committerLeafPos: commit.committerLeafPos, hash: uint8ArrayToBase64(new Uint8Array(digest)) }
+}
+
+// Every member must pick the same winner: lowest committer leaf, then lowest commit hash
+export function compareCommitRanks(a: CommitRank, b: CommitRank): number {
+  if (a.committerLeafPos !== b.committerLeafPos) return a.committerLeafPos - b.committerLeafPos
+  return a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0
+}
+
+export function welcomeSignatureInput(roomId: string, welcome: TreeKemWelcome, treeHash: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    WELCOME_SIGNATURE_CONTEXT,
+    roomId,
+    welcome.epoch,
+    treeHash,
+    welcome.myLeafPos,
+    welcome.signerLeafPos,
+    welcome.transcriptHash,
+    welcome.pathSecrets.map(pathEntryFields)
+  ]))
 }
 
 export async function deriveKemKey(mlkemSS: Uint8Array): Promise<CryptoKey> {
@@ -116,13 +235,13 @@ async function ratchetChain(chainKey: Uint8Array): Promise<{messageKey: CryptoKe
   return { messageKey, nextChainKey: new Uint8Array(nextBits) }
 }
 
-export function clearLegacyStorage(): void {
+export function clearLegacyStorage(storage: StorageOptions = {}): void {
   for (const key of LEGACY_STORAGE_KEYS) {
-    localStorage.removeItem(key)
+    getKeyValueStore(storage).removeItem(key)
   }
 }
 
-async function saveKeyPairDeviceBound(signingKeyPair: SigningKeyPair, publicKeyBase64: string, deviceKey: CryptoKey): Promise<void> {
+async function saveKeyPairDeviceBound(signingKeyPair: SigningKeyPair, publicKeyBase64: string, deviceKey: CryptoKey, store: KeyValueStore): Promise<void> {
   const iv = crypto.getRandomValues(new Uint8Array(12))
   const encrypted = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
@@ -136,11 +255,11 @@ async function saveKeyPairDeviceBound(signingKeyPair: SigningKeyPair, publicKeyB
     publicKey: publicKeyBase64
   }
 
-  localStorage.setItem(DEVICE_BOUND_STORAGE_KEY, JSON.stringify(data))
+  store.setItem(DEVICE_BOUND_STORAGE_KEY, JSON.stringify(data))
 }
 
-async function loadKeyPairDeviceBound(deviceKey: CryptoKey): Promise<{ keyPair: SigningKeyPair; publicKey: string } | null> {
-  const stored = localStorage.getItem(DEVICE_BOUND_STORAGE_KEY)
+async function loadKeyPairDeviceBound(deviceKey: CryptoKey, store: KeyValueStore): Promise<{ keyPair: SigningKeyPair; publicKey: string } | null> {
+  const stored = store.getItem(DEVICE_BOUND_STORAGE_KEY)
   if (!stored) return null
 
   try {
@@ -157,7 +276,7 @@ async function loadKeyPairDeviceBound(deviceKey: CryptoKey): Promise<{ keyPair:
     const secretKey = new Uint8Array(decrypted)
     const publicKey = base64ToUint8Array(data.publicKey)
     if (secretKey.length !== 4032 || publicKey.length !== 1952) {
-      localStorage.removeItem(DEVICE_BOUND_STORAGE_KEY)
+      store.removeItem(DEVICE_BOUND_STORAGE_KEY)
       return null
     }
 
@@ -166,7 +285,7 @@ async function loadKeyPairDeviceBound(deviceKey: CryptoKey): Promise<{ keyPair:
       publicKey: data.publicKey
     }
   } catch {
-    localStorage.removeItem(DEVICE_BOUND_STORAGE_KEY)
+    store.removeItem(DEVICE_BOUND_STORAGE_KEY)
     return null
   }
 }
@@ -251,13 +370,46 @@ export async function importGroupKey(base64Key: string): Promise<CryptoKey> {
   return crypto.subtle.importKey('raw', bytes, AES_PARAMS, true, ['encrypt', 'decrypt'])
 }
 
-export async function encrypt(key: CryptoKey, plaintext: string): Promise<string> {
+export type PaddingPolicy = 'none' | 'power-of-two' | 'padme'
+
+const MIN_PADDED_LENGTH = 64
+const MAX_PADDED_LENGTH = 63 * 1024
+const PADDING_MARKER = 0x80
+
+function bucketLength(length: number, policy: PaddingPolicy): number {
+  if (policy === 'power-of-two') return 2 ** Math.ceil(Math.log2(length))
+  const exponent = Math.floor(Math.log2(length))
+  const step = 2 ** (exponent - Math.floor(Math.log2(exponent)) - 1)
+  return Math.ceil(length / step) * step
+}
+
+export function paddedLength(length: number, policy: PaddingPolicy): number {
+  if (policy === 'none') return length
+  const bucket = bucketLength(Math.max(length, MIN_PADDED_LENGTH), policy)
+  return bucket > MAX_PADDED_LENGTH ? Math.max(length, MAX_PADDED_LENGTH) : bucket
+}
+
+export function pad(bytes: Uint8Array, policy: PaddingPolicy): Uint8Array {
+  const padded = new Uint8Array(paddedLength(bytes.length + 1, policy))
+  padded.set(bytes)
+  padded[bytes.length] = PADDING_MARKER
+  return padded
+}
+
+export function unpad(padded: Uint8Array): Uint8Array {
+  let end = padded.length - 1
+  while (end >= 0 && padded[end] === 0) end--
+  if (end < 0 || padded[end] !== PADDING_MARKER) throw new Error('Invalid padding')
+  return padded.subarray(0, end)
+}
+
+export async function encrypt(key: CryptoKey, plaintext: string | Uint8Array, aad?: Uint8Array): Promise<string> {
   const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encoded = new TextEncoder().encode(plaintext)
+  const encoded = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext
   const ciphertext = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
+    aad ? { name: 'AES-GCM', iv, additionalData: aad as BufferSource } : { name: 'AES-GCM', iv },
     key,
-    encoded
+    encoded as BufferSource
   )
   const combined = new Uint8Array(iv.length + ciphertext.byteLength)
   combined.set(iv)
@@ -265,7 +417,11 @@ export async function encrypt(key: CryptoKey, plaintext: string): Promise<string
   return btoa(String.fromCharCode(...combined))
 }
 
-export async function decrypt(key: CryptoKey, encryptedBase64: string): Promise<string> {
+export async function decrypt(key: CryptoKey, encryptedBase64: string, aad?: Uint8Array): Promise<string> {
+  return new TextDecoder().decode(await decryptBytes(key, encryptedBase64, aad))
+}
+
+export async function decryptBytes(key: CryptoKey, encryptedBase64: string, aad?: Uint8Array): Promise<Uint8Array> {
   const binaryString = atob(encryptedBase64)
   const combined = new Uint8Array(binaryString.length)
   for (let i = 0; i < binaryString.length; i++) {
@@ -274,11 +430,11 @@ export async function decrypt(key: CryptoKey, encryptedBase64: string): Promise<
   const iv = combined.slice(0, 12)
   const ciphertext = combined.slice(12)
   const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
+    aad ? { name: 'AES-GCM', iv, additionalData: aad as BufferSource } : { name: 'AES-GCM', iv },
     key,
     ciphertext
   )
-  return new TextDecoder().decode(decrypted)
+  return new Uint8Array(decrypted)
 }
 
 export function uint8ArrayToBase64(bytes: Uint8Array): string {
@@ -298,23 +454,6 @@ export function base64ToUint8Array(b64: string): Uint8Array {
   return bytes
 }
 
-export async function generateMlKemKeyPair(): Promise<MlKemKeyPair> {
-  const kem = new MlKem768()
-  const [publicKey, secretKey] = await kem.generateKeyPair()
-  return { publicKey, secretKey }
-}
-
-export async function mlKemEncapsulate(peerPub: Uint8Array): Promise<{ ciphertext: Uint8Array; sharedSecret: Uint8Array }> {
-  const kem = new MlKem768()
-  const [ciphertext, sharedSecret] = await kem.encap(peerPub)
-  return { ciphertext, sharedSecret }
-}
-
-export async function mlKemDecapsulate(ct: Uint8Array, sk: Uint8Array): Promise<Uint8Array> {
-  const kem = new MlKem768()
-  return kem.decap(ct, sk)
-}
-
 export function isValidMlKemPublicKey(b64: string): boolean {
   try {
     const decoded = base64ToUint8Array(b64)
@@ -324,21 +463,33 @@ export function isValidMlKemPublicKey(b64: string): boolean {
   }
 }
 
-export async function getOrCreateKeyPair(): Promise<{ keyPair: SigningKeyPair; publicKey: string }> {
-  const deviceKey = await getOrCreateDeviceKey()
+async function loadKeyPair(storage: StorageOptions): Promise<{ keyPair: SigningKeyPair; publicKey: string }> {
+  const stored = await loadKeyPairDeviceBound(await getOrCreateDeviceKey(storage), getKeyValueStore(storage))
+  if (!stored) throw new Error('Identity key is no longer stored')
+  return stored
+}
+
+export async function getOrCreateKeyPair(storage: StorageOptions = {}): Promise<{ keyPair: SigningKeyPair; publicKey: string }> {
+  const deviceKey = await getOrCreateDeviceKey(storage)
+  const store = getKeyValueStore(storage)
 
-  const stored = await loadKeyPairDeviceBound(deviceKey)
+  const stored = await loadKeyPairDeviceBound(deviceKey, store)
   if (stored) return stored
 
   const keyPair = generateSigningKeyPair()
   const publicKey = uint8ArrayToBase64(keyPair.publicKey)
-  await saveKeyPairDeviceBound(keyPair, publicKey, deviceKey)
+  await saveKeyPairDeviceBound(keyPair, publicKey, deviceKey, store)
 
   return { keyPair, publicKey }
 }
 
 export class GroupKeyManager {
-  private signingKeyPair: SigningKeyPair | null = null
+  private roomId: string
+  private storage: StorageOptions
+  private signingKey: { publicKey: Uint8Array; handle: number } | null = null
+  private signingKeyImport: Promise<void> = Promise.resolve()
+  private watchingWorker = false
+  private messageStorageKey: CryptoKey | null = null
   private myPublicKey: string = ''
   private myColor: PeerColor = 'blue'
   private peerPublicKeys: Map<string, string> = new Map()
@@ -349,32 +500,57 @@ export class GroupKeyManager {
   private isCreator: boolean = false
   private creatorId: string = ''
   private mlKemKeyPair: MlKemKeyPair | null = null
+  private ecKeyPair: X25519KeyPair | null = null
   private peerMlKemPublicKeys: Map<string, Uint8Array> = new Map()
   private myPeerId: string = ''
   private epoch: number = 0
   private myChainState: ChainState | null = null
   private peerChainStates: Map<string, ChainState> = new Map()
-  private previousEpochChains: Map<string, ChainState> | null = null
-  private previousEpochTimeout: ReturnType<typeof setTimeout> | null = null
+  private retainedEpochs: Map<number, RetainedEpoch> = new Map()
+  private epochRetention: EpochRetention = DEFAULT_EPOCH_RETENTION
+  private retentionTimeout: ReturnType<typeof setTimeout> | null = null
+  private skippedKeys: SkippedKeyStore = new SkippedKeyStore()
+  private skippedKeyTimeout: ReturnType<typeof setTimeout> | null = null
   private treeState: TreeKemState | null = null
   private peerLeafPositions: Map<string, number> = new Map()
+  private paddingPolicy: PaddingPolicy = 'padme'
+  private outbound: Promise<unknown> = Promise.resolve()
+  private commits: Promise<unknown> = Promise.resolve()
+  private forkPoint: ForkPoint | null = null
+  private committedLeafKeyPair: MlKemKeyPair | null = null
+
+  constructor(roomId: string = '', storage: StorageOptions = {}) {
+    this.roomId = roomId
+    this.storage = storage
+  }
 
   async initialize(): Promise<string> {
-    const { keyPair, publicKey } = await getOrCreateKeyPair()
-    this.signingKeyPair = keyPair
+    const { keyPair, publicKey } = await getOrCreateKeyPair(this.storage)
+    this.messageStorageKey = await deriveMessageStorageKey(keyPair.secretKey)
+    await this.signingKeyImport
+    if (this.signingKey) await callCrypto('releaseSigningKey', this.signingKey.handle)
+    this.signingKey = { publicKey: keyPair.publicKey, handle: await callCrypto('importSigningKey', keyPair.secretKey) }
+    keyPair.secretKey.fill(0)
+    if (!this.watchingWorker) {
+      onCryptoWorkerRestart(() => {
+        this.signingKeyImport = this.reimportSigningKey().catch(e => console.error('Failed to re-import signing key:', e))
+      })
+      this.watchingWorker = true
+    }
     this.myPublicKey = publicKey
     const prefs = await deriveColorPreferences(publicKey)
     this.colorPreferences.set(publicKey, prefs)
     this.myColor = prefs[0]
 
     this.mlKemKeyPair = await generateMlKemKeyPair()
+    this.ecKeyPair = await generateX25519KeyPair()
 
     return publicKey
   }
 
   async getMessageStorageKey(): Promise<CryptoKey> {
-    if (!this.signingKeyPair) throw new Error('Signing key pair not initialized')
-    return deriveMessageStorageKey(this.signingKeyPair.secretKey)
+    if (!this.messageStorageKey) throw new Error('Signing key pair not initialized')
+    return this.messageStorageKey
   }
 
   getMyColor(): PeerColor {
@@ -387,9 +563,19 @@ export class GroupKeyManager {
     this.myPeerId = myPeerId
   }
 
+  private leafKeyPair(): MlKemKeyPair {
+    if (!this.mlKemKeyPair || !this.ecKeyPair) throw new Error('KEM key pair not initialized')
+    return combineKeyPairs(this.mlKemKeyPair, this.ecKeyPair)
+  }
+
   async generateAndSetGroupKey(): Promise<void> {
-    if (!this.mlKemKeyPair) throw new Error('ML-KEM key pair not initialized')
-    this.treeState = TreeKemState.createForCreator(this.mlKemKeyPair.publicKey, this.mlKemKeyPair.secretKey)
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    const leafKeyPair = this.leafKeyPair()
+    this.treeState = TreeKemState.createForCreator(
+      leafKeyPair.publicKey,
+      leafKeyPair.secretKey,
+      this.signingKey.publicKey
+    )
     this.groupKey = await deriveRootGroupKey(this.treeState.getRootSecret())
     await this.initializeChains()
   }
@@ -402,54 +588,97 @@ export class GroupKeyManager {
 
   private async initializeChains(): Promise<void> {
     if (!this.groupKey || !this.myPeerId) return
+    // A replaced epoch reuses its number, so chains and keys from the losing branch must go too
+    for (const epoch of Array.from(this.retainedEpochs.keys())) {
+      if (epoch >= this.epoch) this.discardEpoch(epoch)
+    }
+    this.skippedKeys.discard((_, epoch) => epoch >= this.epoch || !this.retainedEpochs.has(epoch))
     const groupKeyBytes = await this.exportGroupKeyBytes()
+    this.wipeLiveChains()
     this.myChainState = {
       chainKey: await deriveChainKey(groupKeyBytes, this.myPeerId),
-      counter: 0,
-      skippedKeys: new Map()
+      counter: 0
     }
-    this.peerChainStates.clear()
     for (const [peerId] of this.peerPublicKeys) {
       this.peerChainStates.set(peerId, {
         chainKey: await deriveChainKey(groupKeyBytes, peerId),
-        counter: 0,
-        skippedKeys: new Map()
+        counter: 0
       })
     }
   }
 
-  async addPeer(peerId: string, publicKeyBase64: string, pqPublicKeyBase64: string, sigBase64?: string): Promise<void> {
-    if (!this.signingKeyPair) throw new Error('Signing key pair not initialized')
+  async addPeer(peerId: string, publicKeyBase64: string, pqPublicKeyBase64: string, sigBase64?: string, ecPublicKeyBase64?: string): Promise<boolean> {
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
     if (!isValidMlKemPublicKey(pqPublicKeyBase64)) throw new Error('Invalid ML-KEM public key')
+    const ecPub = ecPublicKeyBase64 ? base64ToUint8Array(ecPublicKeyBase64) : new Uint8Array(0)
+    if (ecPublicKeyBase64 && ecPub.length !== X25519_PUBLIC_KEY_LENGTH) throw new Error('Invalid X25519 public key')
+    const kemPub = concatBytes(base64ToUint8Array(pqPublicKeyBase64), ecPub)
+
+    const knownKem = this.peerMlKemPublicKeys.get(peerId)
+    if (this.peerPublicKeys.get(peerId) === publicKeyBase64 && knownKem && bytesEqual(knownKem, kemPub)) {
+      return false
+    }
 
     if (sigBase64) {
       const signingPub = base64ToUint8Array(publicKeyBase64)
       const sigBytes = base64ToUint8Array(sigBase64)
-      const pqPubBytes = base64ToUint8Array(pqPublicKeyBase64)
-      if (!verify(signingPub, pqPubBytes, sigBytes)) {
-        throw new Error('Invalid ML-DSA signature on ML-KEM public key')
+      if (!await callCrypto('verify', signingPub, kemPub, sigBytes)) {
+        throw new Error('Invalid ML-DSA signature on KEM public key')
       }
     }
 
     this.peerPublicKeys.set(peerId, publicKeyBase64)
     this.peerSigningKeys.set(peerId, base64ToUint8Array(publicKeyBase64))
-    this.peerMlKemPublicKeys.set(peerId, base64ToUint8Array(pqPublicKeyBase64))
+    this.peerMlKemPublicKeys.set(peerId, kemPub)
     if (!this.colorPreferences.has(publicKeyBase64)) {
       this.colorPreferences.set(publicKeyBase64, await deriveColorPreferences(publicKeyBase64))
     }
     this.recomputeColors()
     if (this.treeState) {
-      const leafPos = this.treeState.addLeaf(base64ToUint8Array(pqPublicKeyBase64))
+      const signingKey = base64ToUint8Array(publicKeyBase64)
+      const leafPos = this.treeState.findLeaf(signingKey, this.claimedLeaves(this.treeState)) ??
+        this.treeState.addLeaf(kemPub, signingKey)
       this.peerLeafPositions.set(peerId, leafPos)
+      this.forkPoint = null
     }
     if (this.groupKey && this.myPeerId) {
       const groupKeyBytes = await this.exportGroupKeyBytes()
       this.peerChainStates.set(peerId, {
         chainKey: await deriveChainKey(groupKeyBytes, peerId),
-        counter: 0,
-        skippedKeys: new Map()
+        counter: 0
       })
     }
+    return true
+  }
+
+  private claimedLeaves(tree: TreeKemState): Set<number> {
+    return new Set([tree.myLeafPos, ...this.peerLeafPositions.values()])
+  }
+
+  resetGroup(): void {
+    for (const epoch of Array.from(this.retainedEpochs.keys())) this.discardEpoch(epoch)
+    this.pruneRetainedEpochs()
+    if (this.skippedKeyTimeout) clearTimeout(this.skippedKeyTimeout)
+    this.skippedKeyTimeout = null
+    this.skippedKeys.clear()
+    for (const pubKey of this.peerPublicKeys.values()) {
+      if (pubKey !== this.myPublicKey) this.colorPreferences.delete(pubKey)
+    }
+    this.peerPublicKeys.clear()
+    this.peerSigningKeys.clear()
+    this.peerMlKemPublicKeys.clear()
+    this.peerColors.clear()
+    this.wipeLiveChains()
+    this.peerLeafPositions.clear()
+    this.groupKey = null
+    this.treeState = null
+    this.forkPoint = null
+    this.committedLeafKeyPair = null
+    this.epoch = 0
+    this.isCreator = false
+    this.creatorId = ''
+    this.myPeerId = ''
+    this.recomputeColors()
   }
 
   removePeer(peerId: string): void {
@@ -458,13 +687,16 @@ export class GroupKeyManager {
     this.peerColors.delete(peerId)
     this.peerMlKemPublicKeys.delete(peerId)
     this.peerSigningKeys.delete(peerId)
+    this.peerChainStates.get(peerId)?.chainKey.fill(0)
     this.peerChainStates.delete(peerId)
+    this.skippedKeys.discard((owner, epoch) => owner === peerId && epoch === this.epoch)
     if (pubKey) this.colorPreferences.delete(pubKey)
     if (this.treeState) {
       const leafPos = this.peerLeafPositions.get(peerId)
       if (leafPos !== undefined) {
         this.treeState.removeLeaf(leafPos)
         this.peerLeafPositions.delete(peerId)
+        this.forkPoint = null
       }
     }
     this.recomputeColors()
@@ -501,83 +733,339 @@ export class GroupKeyManager {
     if (!this.treeState) throw new Error('Tree state not initialized')
     const leafPos = this.peerLeafPositions.get(peerId)
     if (leafPos === undefined) throw new Error(`No leaf position for peer ${peerId}`)
-    const peerMlKemPub = this.peerMlKemPublicKeys.get(peerId)
-    if (!peerMlKemPub) throw new Error(`No ML-KEM public key for peer ${peerId}`)
-    return this.treeState.generateWelcome(leafPos, peerMlKemPub, this.epoch)
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    const welcome = await this.treeState.generateWelcome(leafPos, this.epoch)
+    const treeHash = uint8ArrayToBase64(await this.treeState.treeHash())
+    welcome.signature = uint8ArrayToBase64(await this.sign(welcomeSignatureInput(this.roomId, welcome, treeHash)))
+    return welcome
   }
 
   async receiveWelcome(welcome: TreeKemWelcome): Promise<void> {
-    if (!this.mlKemKeyPair) throw new Error('ML-KEM key pair not initialized')
-    this.treeState = await TreeKemState.fromWelcome(welcome, this.mlKemKeyPair)
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    const leafPub = welcome.treePublicKeys[2 * welcome.myLeafPos]
+    const leafKeyPair = leafPub ? this.ownLeafKeyPair(base64ToUint8Array(leafPub)) : null
+    if (!leafKeyPair) throw new Error('Welcome is not addressed to our leaf key')
+    const state = await TreeKemState.fromWelcome(welcome, leafKeyPair)
+
+    const signerKey = state.leafSigningKey(welcome.signerLeafPos)
+    if (!signerKey || !Array.from(this.peerSigningKeys.values()).some(key => bytesEqual(key, signerKey))) {
+      throw new MessageAuthenticationError('Welcome signed by an unknown member')
+    }
+    const myKey = state.leafSigningKey(welcome.myLeafPos)
+    if (!myKey || !bytesEqual(myKey, this.signingKey.publicKey)) {
+      throw new MessageAuthenticationError('Welcome does not carry our identity key')
+    }
+    const treeHash = uint8ArrayToBase64(await state.treeHash())
+    if (!await callCrypto('verify', signerKey, welcomeSignatureInput(this.roomId, welcome, treeHash), base64ToUint8Array(welcome.signature))) {
+      throw new MessageAuthenticationError('Invalid welcome signature')
+    }
+
+    this.treeState = state
+    this.forkPoint = null
+    this.peerLeafPositions.clear()
+    for (const [peerId, signingKey] of this.peerSigningKeys) {
+      const leafPos = state.findLeaf(signingKey, this.claimedLeaves(state))
+      if (leafPos !== null) this.peerLeafPositions.set(peerId, leafPos)
+    }
     this.epoch = welcome.epoch
-    this.groupKey = await deriveRootGroupKey(this.treeState.getRootSecret())
+    this.groupKey = await deriveRootGroupKey(state.getRootSecret())
     await this.initializeChains()
   }
 
-  async receiveCommit(commit: TreeKemCommit): Promise<void> {
+  // Committing rotates our leaf key; a welcome may carry the key from our latest commit even after
+  // an earlier welcome replaced our tree, or the one before it if that commit was replaced
+  private ownLeafKeyPair(publicKey: Uint8Array): MlKemKeyPair | null {
+    const candidates = [
+      this.treeState?.leafKeyPair(),
+      this.committedLeafKeyPair,
+      this.forkPoint?.tree.leafKeyPair(),
+      this.leafKeyPair()
+    ]
+    return candidates.find(keyPair => keyPair && bytesEqual(keyPair.publicKey, publicKey)) ?? null
+  }
+
+  // Commits are built and applied one at a time, so neither sees the other's tree half swapped in
+  private inCommitOrder<T>(op: () => Promise<T>): Promise<T> {
+    const result = this.commits.then(op)
+    this.commits = result.catch(() => {})
+    return result
+  }
+
+  receiveCommit(commit: TreeKemCommit): Promise<CommitOutcome> {
+    return this.inCommitOrder(() => this.acceptCommit(commit))
+  }
+
+  private async acceptCommit(commit: TreeKemCommit): Promise<CommitOutcome> {
+    if (!this.treeState) throw new Error('Tree state not initialized')
+    if (commit.epoch < this.epoch) return 'ignored'
+
+    if (commit.epoch === this.epoch) {
+      const fork = this.forkPoint
+      if (!fork || fork.epoch !== this.epoch - 1) throw new EpochForkError('Conflicting commit for the current epoch')
+      const rank = await commitRank(this.roomId, commit)
+      if (compareCommitRanks(rank, fork.winner) >= 0) return 'ignored'
+      await this.authenticateCommit(commit, fork.tree)
+      this.treeState = fork.tree
+      this.epoch = fork.epoch
+      await this.applyCommit(commit, rank)
+      return 'replaced'
+    }
+
+    if (commit.epoch > this.epoch + 1) throw new EpochForkError('Missed commits for earlier epochs')
+    await this.authenticateCommit(commit, this.treeState)
+    this.retainCurrentEpoch()
+    await this.applyCommit(commit, await commitRank(this.roomId, commit))
+    return 'applied'
+  }
+
+  private async authenticateCommit(commit: TreeKemCommit, tree: TreeKemState): Promise<void> {
+    if (commit.treeHash !== uint8ArrayToBase64(await tree.treeHash())) {
+      throw new EpochForkError('Commit was made against a different tree')
+    }
+    const committerKey = tree.leafSigningKey(commit.committerLeafPos)
+    if (!committerKey || !await callCrypto('verify', committerKey, commitSignatureInput(this.roomId, commit), base64ToUint8Array(commit.signature))) {
+      throw new MessageAuthenticationError('Invalid commit signature')
+    }
+  }
+
+  private async applyCommit(commit: TreeKemCommit, rank: CommitRank): Promise<void> {
     if (!this.treeState) throw new Error('Tree state not initialized')
-    this.savePreviousEpochChains()
+    const next = this.treeState.clone()
+    const rootSecret = await next.processCommit(commit)
+    await next.recordCommit(commit)
+    this.forkPoint = { epoch: this.epoch, tree: this.treeState, winner: rank }
+    this.treeState = next
     this.epoch = commit.epoch
-    const rootSecret = await this.treeState.processCommit(commit)
     this.groupKey = await deriveRootGroupKey(rootSecret)
     await this.initializeChains()
   }
 
-  signMlKemPublicKey(): string | null {
-    if (!this.signingKeyPair || !this.mlKemKeyPair) return null
-    const sig = sign(this.signingKeyPair.secretKey, this.mlKemKeyPair.publicKey)
-    return uint8ArrayToBase64(sig)
+  exportState(): GroupState | null {
+    if (!this.treeState || !this.mlKemKeyPair || !this.ecKeyPair) return null
+    const chain = (state: ChainState | undefined | null): SerializedChain | null =>
+      state ? { chainKey: uint8ArrayToBase64(state.chainKey), counter: state.counter } : null
+    return {
+      version: 2,
+      roomId: this.roomId,
+      peerId: this.myPeerId,
+      isCreator: this.isCreator,
+      creatorId: this.creatorId,
+      epoch: this.epoch,
+      mlKemKeyPair: {
+        publicKey: uint8ArrayToBase64(this.mlKemKeyPair.publicKey),
+        secretKey: uint8ArrayToBase64(this.mlKemKeyPair.secretKey)
+      },
+      ecKeyPair: {
+        publicKey: uint8ArrayToBase64(this.ecKeyPair.publicKey),
+        privateKey: uint8ArrayToBase64(this.ecKeyPair.privateKey)
+      },
+      tree: this.treeState.serialize(),
+      myChain: chain(this.myChainState),
+      peers: Array.from(this.peerPublicKeys, ([peerId, publicKey]) => ({
+        peerId,
+        publicKey,
+        kemPublicKey: uint8ArrayToBase64(this.peerMlKemPublicKeys.get(peerId)!),
+        leafPos: this.peerLeafPositions.get(peerId) ?? null,
+        chain: chain(this.peerChainStates.get(peerId))
+      }))
+    }
+  }
+
+  // Skipped message keys are not extractable, so messages that arrived out of order before a reload stay unreadable
+  async restoreState(state: GroupState): Promise<boolean> {
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    if (state.version !== 2 || state.roomId !== this.roomId) return false
+    const tree = TreeKemState.deserialize(state.tree)
+    const myKey = tree.leafSigningKey(tree.myLeafPos)
+    if (!myKey || !bytesEqual(myKey, this.signingKey.publicKey)) return false
+
+    this.resetGroup()
+    const chain = (saved: SerializedChain): ChainState =>
+      ({ chainKey: base64ToUint8Array(saved.chainKey), counter: saved.counter })
+    this.mlKemKeyPair = {
+      publicKey: base64ToUint8Array(state.mlKemKeyPair.publicKey),
+      secretKey: base64ToUint8Array(state.mlKemKeyPair.secretKey)
+    }
+    this.ecKeyPair = {
+      publicKey: base64ToUint8Array(state.ecKeyPair.publicKey),
+      privateKey: base64ToUint8Array(state.ecKeyPair.privateKey)
+    }
+    this.isCreator = state.isCreator
+    this.creatorId = state.creatorId
+    this.myPeerId = state.peerId
+    this.epoch = state.epoch
+    this.treeState = tree
+    for (const peer of state.peers) {
+      this.peerPublicKeys.set(peer.peerId, peer.publicKey)
+      this.peerSigningKeys.set(peer.peerId, base64ToUint8Array(peer.publicKey))
+      this.peerMlKemPublicKeys.set(peer.peerId, base64ToUint8Array(peer.kemPublicKey))
+      if (peer.leafPos !== null) this.peerLeafPositions.set(peer.peerId, peer.leafPos)
+      if (peer.chain) this.peerChainStates.set(peer.peerId, chain(peer.chain))
+      if (!this.colorPreferences.has(peer.publicKey)) {
+        this.colorPreferences.set(peer.publicKey, await deriveColorPreferences(peer.publicKey))
+      }
+    }
+    this.recomputeColors()
+    this.groupKey = await deriveRootGroupKey(tree.getRootSecret())
+    this.myChainState = state.myChain ? chain(state.myChain) : null
+    return true
   }
 
-  async encryptMessage(message: string): Promise<{payload: string, epoch: number, counter: number}> {
-    if (!this.myChainState) throw new Error('Chain not initialized')
-    const { messageKey, nextChainKey } = await ratchetChain(this.myChainState.chainKey)
-    const counter = this.myChainState.counter
-    this.myChainState.chainKey = nextChainKey
-    this.myChainState.counter++
-    const payload = await encrypt(messageKey, message)
-    return { payload, epoch: this.epoch, counter }
+  async getTreeHash(): Promise<string | null> {
+    return this.treeState ? uint8ArrayToBase64(await this.treeState.treeHash()) : null
   }
 
-  async decryptMessage(fromPeerId: string, encryptedMessage: string, epoch: number, counter: number): Promise<string> {
-    let chainStates: Map<string, ChainState>
-    if (epoch === this.epoch) {
-      chainStates = this.peerChainStates
-    } else if (epoch === this.epoch - 1 && this.previousEpochChains) {
-      chainStates = this.previousEpochChains
-    } else {
-      throw new Error('Unknown epoch')
+  async getEpochAuthenticator(): Promise<Uint8Array | null> {
+    return this.treeState ? this.treeState.epochAuthenticator() : null
+  }
+
+  async signMlKemPublicKey(): Promise<string | null> {
+    if (!this.signingKey || !this.mlKemKeyPair || !this.ecKeyPair) return null
+    return uint8ArrayToBase64(await this.sign(this.leafKeyPair().publicKey))
+  }
+
+  private async sign(data: Uint8Array): Promise<Uint8Array> {
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    await this.signingKeyImport
+    return callCrypto('sign', this.signingKey.handle, data)
+  }
+
+  // The old handle died with the worker, so it is replaced rather than released
+  private async reimportSigningKey(): Promise<void> {
+    const { keyPair } = await loadKeyPair(this.storage)
+    try {
+      if (!this.signingKey || !bytesEqual(keyPair.publicKey, this.signingKey.publicKey)) return
+      this.signingKey.handle = await callCrypto('importSigningKey', keyPair.secretKey)
+    } finally {
+      keyPair.secretKey.fill(0)
     }
+  }
 
-    const peerChain = chainStates.get(fromPeerId)
-    if (!peerChain) throw new Error('No chain for peer')
+  encryptMessage(message: string, contentType = CONTENT_TYPE_TEXT): Promise<{payload: string, epoch: number, counter: number}> {
+    if (!CONTENT_TYPES.has(contentType)) return Promise.reject(new Error('Unknown content type'))
+    const sealed = this.outbound.then(() => this.sealMessage(message, contentType))
+    this.outbound = sealed.catch(() => {})
+    return sealed
+  }
 
-    const skippedKey = peerChain.skippedKeys.get(counter)
+  private async sealMessage(message: string, contentType: number): Promise<{payload: string, epoch: number, counter: number}> {
+    const chain = this.myChainState
+    if (!chain || !this.treeState) throw new Error('Chain not initialized')
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    const epoch = this.epoch
+    const senderLeaf = this.treeState.myLeafPos
+    const { messageKey, nextChainKey } = await ratchetChain(chain.chainKey)
+    const counter = chain.counter
+    chain.chainKey.fill(0)
+    chain.chainKey = nextChainKey
+    chain.counter++
+    const body = pad(new TextEncoder().encode(message), this.paddingPolicy)
+    const signature = await this.sign(messageSignatureInput(this.myPeerId, epoch, counter, body))
+    const signed = new Uint8Array(signature.length + body.length)
+    signed.set(signature)
+    signed.set(body, signature.length)
+    const header: MessageEnvelopeHeader = {
+      version: MESSAGE_ENVELOPE_VERSION,
+      contentType,
+      roomId: this.roomId,
+      epoch,
+      senderLeaf,
+      counter
+    }
+    const sealed = base64ToUint8Array(await encrypt(messageKey, signed, envelopeAssociatedData(header)))
+    const payload = uint8ArrayToBase64(concatBytes(Uint8Array.of(header.version, header.contentType), sealed))
+    return { payload, epoch, counter }
+  }
+
+  setPaddingPolicy(policy: PaddingPolicy): void {
+    this.paddingPolicy = policy
+  }
+
+  private async openMessage(messageKey: CryptoKey, encryptedMessage: string, fromPeerId: string, senderLeaf: number, epoch: number, counter: number): Promise<DecryptedMessage> {
+    const envelope = base64ToUint8Array(encryptedMessage)
+    if (envelope.length < 2 || envelope[0] !== MESSAGE_ENVELOPE_VERSION || !CONTENT_TYPES.has(envelope[1])) {
+      throw new Error('Unsupported message envelope')
+    }
+    const header: MessageEnvelopeHeader = { version: envelope[0], contentType: envelope[1], roomId: this.roomId, epoch, senderLeaf, counter }
+    const signed = await decryptBytes(messageKey, uint8ArrayToBase64(envelope.subarray(2)), envelopeAssociatedData(header))
+    const signingKey = this.peerSigningKeys.get(fromPeerId)
+    if (!signingKey) throw new MessageAuthenticationError('No signing key for peer')
+    if (signed.length < ML_DSA_SIGNATURE_LENGTH) throw new MessageAuthenticationError('Message is not signed')
+    const signature = signed.subarray(0, ML_DSA_SIGNATURE_LENGTH)
+    const body = signed.subarray(ML_DSA_SIGNATURE_LENGTH)
+    if (!await callCrypto('verify', signingKey, messageSignatureInput(fromPeerId, epoch, counter, body), signature)) {
+      throw new MessageAuthenticationError('Invalid message signature')
+    }
+    return { text: new TextDecoder().decode(unpad(body)), contentType: header.contentType }
+  }
+
+  async decryptMessage(fromPeerId: string, encryptedMessage: string, epoch: number, counter: number): Promise<DecryptedMessage> {
+    const retained = epoch === this.epoch ? { chains: this.peerChainStates, leafPositions: this.peerLeafPositions } : this.retainedEpochs.get(epoch)
+    if (!retained) throw new Error('Unknown epoch')
+
+    const peerChain = retained.chains.get(fromPeerId)
+    const senderLeaf = retained.leafPositions.get(fromPeerId)
+    if (!peerChain || senderLeaf === undefined) throw new Error('No chain for peer')
+
+    const skippedKey = this.skippedKeys.get(fromPeerId, epoch, counter)
     if (skippedKey) {
-      peerChain.skippedKeys.delete(counter)
-      return decrypt(skippedKey, encryptedMessage)
+      const message = await this.openMessage(skippedKey, encryptedMessage, fromPeerId, senderLeaf, epoch, counter)
+      this.skippedKeys.delete(fromPeerId, epoch, counter)
+      return message
     }
 
-    if (counter < peerChain.counter) throw new Error('Message key already consumed')
+    if (counter < peerChain.counter) {
+      if (this.skippedKeys.wasEvicted(fromPeerId, epoch, counter)) throw new SkippedKeyEvictedError('Message key was evicted')
+      throw new Error('Message key already consumed')
+    }
     if (counter - peerChain.counter > MAX_SKIP) throw new Error('Too many skipped messages')
 
-    while (peerChain.counter < counter) {
-      const { messageKey, nextChainKey } = await ratchetChain(peerChain.chainKey)
-      peerChain.skippedKeys.set(peerChain.counter, messageKey)
-      peerChain.chainKey = nextChainKey
-      peerChain.counter++
+    // Only advance the chain once the message authenticates, so a forgery cannot burn real keys
+    const skipped: [number, CryptoKey][] = []
+    let chainKey = peerChain.chainKey
+    for (let i = peerChain.counter; i < counter; i++) {
+      const step = await ratchetChain(chainKey)
+      skipped.push([i, step.messageKey])
+      chainKey = step.nextChainKey
     }
 
-    const { messageKey, nextChainKey } = await ratchetChain(peerChain.chainKey)
+    const { messageKey, nextChainKey } = await ratchetChain(chainKey)
+    const message = await this.openMessage(messageKey, encryptedMessage, fromPeerId, senderLeaf, epoch, counter)
+    for (const [i, key] of skipped) this.skippedKeys.add(fromPeerId, epoch, i, key)
+    this.scheduleSkippedKeyExpiry()
+    peerChain.chainKey.fill(0)
     peerChain.chainKey = nextChainKey
-    peerChain.counter++
-    return decrypt(messageKey, encryptedMessage)
+    peerChain.counter = counter + 1
+    return message
+  }
+
+  private scheduleSkippedKeyExpiry(): void {
+    if (this.skippedKeyTimeout) return
+    const next = this.skippedKeys.nextExpiry()
+    if (next === null) return
+    this.skippedKeyTimeout = setTimeout(() => {
+      this.skippedKeyTimeout = null
+      this.skippedKeys.expire()
+      this.scheduleSkippedKeyExpiry()
+    }, Math.max(0, next - Date.now()))
+  }
+
+  getSkippedKeyMetrics(): SkippedKeyMetrics {
+    return this.skippedKeys.metrics()
   }
 
   hasTreeState(): boolean {
     return this.treeState !== null
   }
 
+  getCipherSuite(): number | null {
+    return this.treeState?.cipherSuite() ?? null
+  }
+
+  getTreeSize(): number {
+    return this.treeState?.numLeaves ?? 0
+  }
+
   hasGroupKey(): boolean {
     return this.groupKey !== null
   }
@@ -598,31 +1086,78 @@ export class GroupKeyManager {
     return allIds[0] === this.myPeerId
   }
 
-  savePreviousEpochChains(): void {
-    if (this.previousEpochTimeout) {
-      clearTimeout(this.previousEpochTimeout)
-    }
-    this.previousEpochChains = new Map()
+  setEpochRetention(retention: EpochRetention): void {
+    if (!Number.isInteger(retention.maxEpochs) || retention.maxEpochs < 0) throw new Error('Invalid maxEpochs')
+    if (!Number.isFinite(retention.maxAgeMs) || retention.maxAgeMs < 0) throw new Error('Invalid maxAgeMs')
+    this.epochRetention = { ...retention }
+    this.pruneRetainedEpochs()
+  }
+
+  private retainCurrentEpoch(): void {
+    this.discardEpoch(this.epoch)
+    const chains = new Map<string, ChainState>()
     for (const [peerId, state] of this.peerChainStates) {
-      this.previousEpochChains.set(peerId, {
-        chainKey: new Uint8Array(state.chainKey),
-        counter: state.counter,
-        skippedKeys: new Map(state.skippedKeys)
-      })
+      chains.set(peerId, { chainKey: new Uint8Array(state.chainKey), counter: state.counter })
     }
-    this.previousEpochTimeout = setTimeout(() => {
-      this.previousEpochChains = null
-      this.previousEpochTimeout = null
-    }, 30000)
+    this.retainedEpochs.set(this.epoch, { chains, leafPositions: new Map(this.peerLeafPositions), retiredAt: Date.now() })
+    this.pruneRetainedEpochs()
+  }
+
+  private pruneRetainedEpochs(now: number = Date.now()): void {
+    if (this.retentionTimeout) clearTimeout(this.retentionTimeout)
+    this.retentionTimeout = null
+    const newestFirst = Array.from(this.retainedEpochs.keys()).sort((a, b) => b - a)
+    for (const [i, epoch] of newestFirst.entries()) {
+      const retained = this.retainedEpochs.get(epoch)!
+      if (i >= this.epochRetention.maxEpochs || now - retained.retiredAt >= this.epochRetention.maxAgeMs) this.discardEpoch(epoch)
+    }
+    if (this.retainedEpochs.size === 0) return
+    const oldest = Math.min(...Array.from(this.retainedEpochs.values(), retained => retained.retiredAt))
+    this.retentionTimeout = setTimeout(() => this.pruneRetainedEpochs(), Math.max(0, oldest + this.epochRetention.maxAgeMs - now))
+  }
+
+  // Retained epochs hold copies, so the live chains are zeroed as soon as they are replaced
+  private wipeLiveChains(): void {
+    this.myChainState?.chainKey.fill(0)
+    this.myChainState = null
+    for (const chain of this.peerChainStates.values()) chain.chainKey.fill(0)
+    this.peerChainStates.clear()
+  }
+
+  // Zero the chain keys rather than just dropping the references, so they do not linger in memory
+  private discardEpoch(epoch: number): void {
+    const retained = this.retainedEpochs.get(epoch)
+    if (!retained) return
+    for (const chain of retained.chains.values()) chain.chainKey.fill(0)
+    this.retainedEpochs.delete(epoch)
+    this.skippedKeys.discard((_, keyEpoch) => keyEpoch === epoch)
+  }
+
+  initiateRekey(): Promise<TreeKemCommit> {
+    return this.inCommitOrder(() => this.buildCommit())
   }
 
-  async initiateRekey(): Promise<TreeKemCommit> {
+  private async buildCommit(): Promise<TreeKemCommit> {
     if (!this.treeState) throw new Error('Tree state not initialized')
-    this.savePreviousEpochChains()
-    this.epoch++
-    const commit = await this.treeState.generateCommit()
-    commit.epoch = this.epoch
-    this.groupKey = await deriveRootGroupKey(this.treeState.getRootSecret())
+    if (!this.signingKey) throw new Error('Signing key pair not initialized')
+    const base = this.treeState
+    const treeHash = uint8ArrayToBase64(await base.treeHash())
+    // Build the commit on a copy so a failed KEM or signing call leaves the current epoch untouched
+    const next = base.clone()
+    const commit = await next.generateCommit()
+    commit.epoch = this.epoch + 1
+    commit.treeHash = treeHash
+    commit.signature = uint8ArrayToBase64(await this.sign(commitSignatureInput(this.roomId, commit)))
+    await next.recordCommit(commit)
+    const rank = await commitRank(this.roomId, commit)
+    const groupKey = await deriveRootGroupKey(next.getRootSecret())
+    if (this.treeState !== base || this.epoch !== commit.epoch - 1) throw new Error('Group changed while the commit was built')
+    this.retainCurrentEpoch()
+    this.forkPoint = { epoch: this.epoch, tree: this.treeState, winner: rank }
+    this.treeState = next
+    this.committedLeafKeyPair = next.leafKeyPair()
+    this.epoch = commit.epoch
+    this.groupKey = groupKey
     await this.initializeChains()
     return commit
   }
@@ -656,4 +1191,9 @@ export class GroupKeyManager {
     return uint8ArrayToBase64(this.mlKemKeyPair.publicKey)
   }
 
+  getEcPublicKeyBase64(): string | null {
+    if (!this.ecKeyPair) return null
+    return uint8ArrayToBase64(this.ecKeyPair.publicKey)
+  }
+
 }
@@ -0,0 +1,95 @@
+import { handleCryptoRequest, type CryptoOp, type CryptoOps, type CryptoRequest, type CryptoResponse, type CryptoResult } from './workerOps'
+
+export interface CryptoWorkerPort {
+  postMessage(message: CryptoRequest): void
+  addEventListener(type: 'message', listener: (event: MessageEvent<CryptoResponse>) => void): void
+  addEventListener(type: 'error', listener: (event: Event) => void): void
+}
+
+type WorkerFactory = () => CryptoWorkerPort | null
+
+interface PendingCall {
+  resolve: (result: unknown) => void
+  reject: (err: Error) => void
+}
+
+function defaultWorkerFactory(): CryptoWorkerPort | null {
+  if (typeof Worker === 'undefined') return null
+  return new Worker(new URL('./cryptoWorker.ts', import.meta.url), { type: 'module' })
+}
+
+let workerFactory: WorkerFactory = defaultWorkerFactory
+let worker: CryptoWorkerPort | null | undefined
+const pending: Map<number, PendingCall> = new Map()
+const restartListeners: Set<() => void> = new Set()
+let nextId = 1
+
+// Handles issued by a worker die with it, so owners are told to import their keys again
+export function onCryptoWorkerRestart(listener: () => void): () => void {
+  restartListeners.add(listener)
+  return () => restartListeners.delete(listener)
+}
+
+function notifyRestart(): void {
+  for (const listener of restartListeners) listener()
+}
+
+// A null factory forces in-thread execution; passing nothing restores the default worker
+export function configureCryptoWorker(factory: WorkerFactory = defaultWorkerFactory): void {
+  workerFactory = factory
+  worker = undefined
+  failPending(new Error('Crypto worker replaced'))
+  notifyRestart()
+}
+
+function failPending(err: Error): void {
+  for (const call of pending.values()) call.reject(err)
+  pending.clear()
+}
+
+function getWorker(): CryptoWorkerPort | null {
+  if (worker !== undefined) return worker
+  try {
+    worker = workerFactory()
+  } catch {
+    worker = null
+  }
+  if (!worker) return null
+  const port = worker
+  let answered = false
+  port.addEventListener('message', ({ data }) => {
+    if (worker !== port) return
+    answered = true
+    const call = pending.get(data.id)
+    if (!call) return
+    pending.delete(data.id)
+    if (data.ok) {
+      call.resolve(data.result)
+    } else {
+      call.reject(new Error(data.error))
+    }
+  })
+  port.addEventListener('error', () => {
+    if (worker !== port) return
+    // A worker that never answered most likely failed to load, so later calls run in-thread;
+    // one that crashed mid-session is replaced by a fresh worker on the next call
+    worker = answered ? undefined : null
+    failPending(new Error('Crypto worker failed'))
+    notifyRestart()
+  })
+  return worker
+}
+
+export async function callCrypto<K extends CryptoOp>(op: K, ...args: Parameters<CryptoOps[K]>): Promise<CryptoResult<K>> {
+  const request = { id: nextId++, op, args } as CryptoRequest
+  const port = getWorker()
+  if (!port) {
+    const response = await handleCryptoRequest(request)
+    if (!response.ok) throw new Error(response.error)
+    return response.result as CryptoResult<K>
+  }
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve: result => resolve(result as CryptoResult<K>), reject })
+    port.postMessage(request)
+  })
+}
@@ -0,0 +1,10 @@
+import { handleCryptoRequest, type CryptoRequest } from './workerOps'
+
+const scope = globalThis as unknown as {
+  addEventListener(type: 'message', listener: (event: MessageEvent<CryptoRequest>) => void): void
+  postMessage(message: unknown): void
+}
+
+scope.addEventListener('message', async event => {
+  scope.postMessage(await handleCryptoRequest(event.data))
+})
@@ -1,41 +1,9 @@
-const DB_NAME = 'parrhesia'
-const STORE_NAME = 'keys'
-const DEVICE_KEY_ID = 'device-key'
-
-function openDb(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1)
-    request.onupgradeneeded = () => {
-      const db = request.result
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME)
-      }
-    }
-    request.onsuccess = () => resolve(request.result)
-    request.onerror = () => reject(request.error)
-  })
-}
-
-function idbGet(db: IDBDatabase, key: string): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readonly')
-    const request = tx.objectStore(STORE_NAME).get(key)
-    request.onsuccess = () => resolve(request.result)
-    request.onerror = () => reject(request.error)
-  })
-}
+import { getSecureStore, type StorageOptions } from '../storage/storage'
 
-function idbPut(db: IDBDatabase, key: string, value: unknown): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readwrite')
-    const request = tx.objectStore(STORE_NAME).put(value, key)
-    request.onsuccess = () => resolve()
-    request.onerror = () => reject(request.error)
-  })
-}
+const DEVICE_KEY_ID = 'device-key'
 
-export async function getOrCreateDeviceKey(): Promise<CryptoKey> {
-  if (navigator.storage?.persist) {
+export async function getOrCreateDeviceKey(storage: StorageOptions = {}): Promise<CryptoKey> {
+  if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
     try {
       await navigator.storage.persist()
     } catch {
@@ -43,21 +11,15 @@ export async function getOrCreateDeviceKey(): Promise<CryptoKey> {
     }
   }
 
-  const db = await openDb()
-  try {
-    const existing = await idbGet(db, DEVICE_KEY_ID)
-    if (existing instanceof CryptoKey) {
-      return existing
-    }
+  const store = getSecureStore(storage)
+  const existing = await store.getKey(DEVICE_KEY_ID)
+  if (existing) return existing
 
-    const key = await crypto.subtle.generateKey(
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt', 'decrypt']
-    )
-    await idbPut(db, DEVICE_KEY_ID, key)
-    return key
-  } finally {
-    db.close()
-  }
+  const key = await crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    store.extractableKeys,
+    ['encrypt', 'decrypt']
+  )
+  await store.putKey(DEVICE_KEY_ID, key)
+  return key
 }
@@ -0,0 +1,81 @@
+import { getSecureStore, type StorageOptions } from '../storage/storage'
+import { getOrCreateDeviceKey } from './deviceKey'
+import type { SerializedTree } from './treekem'
+
+export const GROUP_STATE_MAX_AGE_MS = 60 * 60 * 1000
+
+export interface SerializedChain {
+  chainKey: string
+  counter: number
+}
+
+export interface SerializedPeer {
+  peerId: string
+  publicKey: string
+  kemPublicKey: string
+  leafPos: number | null
+  chain: SerializedChain | null
+}
+
+export interface GroupState {
+  version: 2
+  roomId: string
+  peerId: string
+  isCreator: boolean
+  creatorId: string
+  epoch: number
+  mlKemKeyPair: { publicKey: string; secretKey: string }
+  ecKeyPair: { publicKey: string; privateKey: string }
+  tree: SerializedTree
+  myChain: SerializedChain | null
+  peers: SerializedPeer[]
+}
+
+export interface SavedSession {
+  resumeToken: string | null
+  group: GroupState
+}
+
+interface SavedRecord extends SavedSession {
+  savedAt: number
+}
+
+function recordId(roomId: string): string {
+  return `group-state:${roomId}`
+}
+
+export async function saveGroupState(roomId: string, resumeToken: string | null, group: GroupState, storage: StorageOptions = {}): Promise<void> {
+  const record: SavedRecord = { savedAt: Date.now(), resumeToken, group }
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(recordId(roomId)) },
+    await getOrCreateDeviceKey(storage),
+    new TextEncoder().encode(JSON.stringify(record))
+  )
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength)
+  sealed.set(iv)
+  sealed.set(new Uint8Array(ciphertext), iv.length)
+  await getSecureStore(storage).putRecord(recordId(roomId), sealed)
+}
+
+export async function loadGroupState(roomId: string, storage: StorageOptions = {}): Promise<SavedSession | null> {
+  const sealed = await getSecureStore(storage).getRecord(recordId(roomId))
+  if (!sealed) return null
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.subarray(0, 12) as BufferSource, additionalData: new TextEncoder().encode(recordId(roomId)) },
+      await getOrCreateDeviceKey(storage),
+      sealed.subarray(12) as BufferSource
+    )
+    const record: SavedRecord = JSON.parse(new TextDecoder().decode(plaintext))
+    if (record.group.roomId !== roomId || Date.now() - record.savedAt > GROUP_STATE_MAX_AGE_MS) throw new Error('Stale group state')
+    return { resumeToken: record.resumeToken, group: record.group }
+  } catch {
+    await deleteGroupState(roomId, storage)
+    return null
+  }
+}
+
+export async function deleteGroupState(roomId: string, storage: StorageOptions = {}): Promise<void> {
+  await getSecureStore(storage).deleteRecord(recordId(roomId))
+}
@@ -0,0 +1,122 @@
+import { deriveMlKemKeyPair, generateMlKemKeyPair, mlKemDecapsulate, mlKemEncapsulate, type MlKemKeyPair } from './primitives'
+
+export const CIPHER_SUITE_MLKEM = 1
+export const CIPHER_SUITE_HYBRID = 2
+
+export const ML_KEM_PUBLIC_KEY_LENGTH = 1184
+export const ML_KEM_SECRET_KEY_LENGTH = 2400
+export const ML_KEM_CIPHERTEXT_LENGTH = 1088
+export const X25519_PUBLIC_KEY_LENGTH = 32
+export const HYBRID_PUBLIC_KEY_LENGTH = ML_KEM_PUBLIC_KEY_LENGTH + X25519_PUBLIC_KEY_LENGTH
+export const HYBRID_CIPHERTEXT_LENGTH = ML_KEM_CIPHERTEXT_LENGTH + X25519_PUBLIC_KEY_LENGTH
+export const KEM_SEED_LENGTH = 96
+
+const ML_KEM_SEED_LENGTH = 64
+
+const X25519 = { name: 'X25519' }
+const COMBINER_LABEL = new TextEncoder().encode('parrhesia-hybrid-kem-v1')
+const COMBINER_SALT = new Uint8Array(32)
+const X25519_PKCS8_PREFIX = Uint8Array.of(0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20)
+const X25519_BASE_POINT = Uint8Array.of(9, ...new Uint8Array(31))
+
+export interface X25519KeyPair {
+  publicKey: Uint8Array
+  privateKey: Uint8Array
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+export async function generateX25519KeyPair(): Promise<X25519KeyPair> {
+  const keyPair = await crypto.subtle.generateKey(X25519, true, ['deriveBits']) as CryptoKeyPair
+  return {
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+    privateKey: new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey))
+  }
+}
+
+export async function deriveX25519KeyPair(seed: Uint8Array): Promise<X25519KeyPair> {
+  const privateKey = concatBytes(X25519_PKCS8_PREFIX, seed)
+  return { publicKey: await x25519(privateKey, X25519_BASE_POINT), privateKey }
+}
+
+async function x25519(privateKey: Uint8Array, publicKey: Uint8Array): Promise<Uint8Array> {
+  const priv = await crypto.subtle.importKey('pkcs8', privateKey as BufferSource, X25519, false, ['deriveBits'])
+  const pub = await crypto.subtle.importKey('raw', publicKey as BufferSource, X25519, false, [])
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'X25519', public: pub }, priv, 256))
+}
+
+// Both shared secrets feed one HKDF, bound to the X25519 ciphertext and recipient key,
+// so the result stays secret as long as either component holds
+async function combine(mlKemSecret: Uint8Array, ecSecret: Uint8Array, ephemeralPub: Uint8Array, recipientPub: Uint8Array): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey('raw', concatBytes(mlKemSecret, ecSecret) as BufferSource, 'HKDF', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      salt: COMBINER_SALT as BufferSource,
+      info: concatBytes(COMBINER_LABEL, ephemeralPub, recipientPub) as BufferSource,
+      hash: 'SHA-256'
+    },
+    keyMaterial,
+    256
+  )
+  return new Uint8Array(bits)
+}
+
+export function combineKeyPairs(mlKem: MlKemKeyPair, ec: X25519KeyPair): MlKemKeyPair {
+  return {
+    publicKey: concatBytes(mlKem.publicKey, ec.publicKey),
+    secretKey: concatBytes(mlKem.secretKey, ec.privateKey, ec.publicKey)
+  }
+}
+
+export async function generateKemKeyPair(cipherSuite: number): Promise<MlKemKeyPair> {
+  const mlKem = await generateMlKemKeyPair()
+  if (cipherSuite !== CIPHER_SUITE_HYBRID) return mlKem
+  return combineKeyPairs(mlKem, await generateX25519KeyPair())
+}
+
+// Same seed, same key pair: members who learn a tree node's secret can rebuild its secret key
+export async function deriveKemKeyPair(seed: Uint8Array, cipherSuite: number): Promise<MlKemKeyPair> {
+  if (seed.length !== KEM_SEED_LENGTH) throw new Error('Invalid KEM seed')
+  const mlKem = await deriveMlKemKeyPair(seed.subarray(0, ML_KEM_SEED_LENGTH))
+  if (cipherSuite !== CIPHER_SUITE_HYBRID) return mlKem
+  return combineKeyPairs(mlKem, await deriveX25519KeyPair(seed.subarray(ML_KEM_SEED_LENGTH)))
+}
+
+export function isHybridPublicKey(publicKey: Uint8Array): boolean {
+  return publicKey.length === HYBRID_PUBLIC_KEY_LENGTH
+}
+
+export async function kemEncapsulate(publicKey: Uint8Array): Promise<{ ciphertext: Uint8Array; sharedSecret: Uint8Array }> {
+  if (publicKey.length === ML_KEM_PUBLIC_KEY_LENGTH) return mlKemEncapsulate(publicKey)
+  if (!isHybridPublicKey(publicKey)) throw new Error('Unsupported KEM public key')
+  const recipientEc = publicKey.subarray(ML_KEM_PUBLIC_KEY_LENGTH)
+  const mlKem = await mlKemEncapsulate(publicKey.subarray(0, ML_KEM_PUBLIC_KEY_LENGTH))
+  const ephemeral = await generateX25519KeyPair()
+  const ecSecret = await x25519(ephemeral.privateKey, recipientEc)
+  return {
+    ciphertext: concatBytes(mlKem.ciphertext, ephemeral.publicKey),
+    sharedSecret: await combine(mlKem.sharedSecret, ecSecret, ephemeral.publicKey, recipientEc)
+  }
+}
+
+export async function kemDecapsulate(ciphertext: Uint8Array, secretKey: Uint8Array): Promise<Uint8Array> {
+  const mlKemSecretKey = secretKey.subarray(0, ML_KEM_SECRET_KEY_LENGTH)
+  if (ciphertext.length === ML_KEM_CIPHERTEXT_LENGTH) return mlKemDecapsulate(ciphertext, mlKemSecretKey)
+  if (ciphertext.length !== HYBRID_CIPHERTEXT_LENGTH) throw new Error('Unsupported KEM ciphertext')
+  if (secretKey.length <= ML_KEM_SECRET_KEY_LENGTH) throw new Error('Hybrid ciphertext for a post-quantum-only key')
+  const ownEc = secretKey.subarray(secretKey.length - X25519_PUBLIC_KEY_LENGTH)
+  const ecPrivate = secretKey.subarray(ML_KEM_SECRET_KEY_LENGTH, secretKey.length - X25519_PUBLIC_KEY_LENGTH)
+  const ephemeralPub = ciphertext.subarray(ML_KEM_CIPHERTEXT_LENGTH)
+  const mlKemSecret = await mlKemDecapsulate(ciphertext.subarray(0, ML_KEM_CIPHERTEXT_LENGTH), mlKemSecretKey)
+  const ecSecret = await x25519(ecPrivate, ephemeralPub)
+  return combine(mlKemSecret, ecSecret, ephemeralPub, ownEc)
+}
@@ -0,0 +1,48 @@
+import { MlKem768 } from 'mlkem'
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js'
+
+export interface SigningKeyPair {
+  publicKey: Uint8Array
+  secretKey: Uint8Array
+}
+
+export interface MlKemKeyPair {
+  publicKey: Uint8Array
+  secretKey: Uint8Array
+}
+
+export function sign(secretKey: Uint8Array, data: Uint8Array): Uint8Array {
+  return ml_dsa65.sign(data, secretKey)
+}
+
+export function verify(publicKey: Uint8Array, data: Uint8Array, signature: Uint8Array): boolean {
+  return ml_dsa65.verify(signature, data, publicKey)
+}
+
+export function generateSigningKeyPair(): SigningKeyPair {
+  const { publicKey, secretKey } = ml_dsa65.keygen()
+  return { publicKey, secretKey }
+}
+
+export async function generateMlKemKeyPair(): Promise<MlKemKeyPair> {
+  const kem = new MlKem768()
+  const [publicKey, secretKey] = await kem.generateKeyPair()
+  return { publicKey, secretKey }
+}
+
+export async function deriveMlKemKeyPair(seed: Uint8Array): Promise<MlKemKeyPair> {
+  const kem = new MlKem768()
+  const [publicKey, secretKey] = await kem.deriveKeyPair(seed)
+  return { publicKey, secretKey }
+}
+
+export async function mlKemEncapsulate(peerPub: Uint8Array): Promise<{ ciphertext: Uint8Array; sharedSecret: Uint8Array }> {
+  const kem = new MlKem768()
+  const [ciphertext, sharedSecret] = await kem.encap(peerPub)
+  return { ciphertext, sharedSecret }
+}
+
+export async function mlKemDecapsulate(ct: Uint8Array, sk: Uint8Array): Promise<Uint8Array> {
+  const kem = new MlKem768()
+  return kem.decap(ct, sk)
+}
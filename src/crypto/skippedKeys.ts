@@ -0,0 +1,115 @@
+export const MAX_SKIPPED_KEYS_PER_PEER = 200
+export const MAX_SKIPPED_KEYS = 1000
+export const SKIPPED_KEY_TTL_MS = 5 * 60 * 1000
+
+interface SkippedKeyEntry {
+  peerId: string
+  epoch: number
+  key: CryptoKey
+  storedAt: number
+}
+
+export interface SkippedKeyMetrics {
+  stored: number
+  evictedPerPeer: number
+  evictedGlobal: number
+  expired: number
+  missed: number
+}
+
+function entryId(peerId: string, epoch: number, counter: number): string {
+  return `${epoch}:${counter}:${peerId}`
+}
+
+export class SkippedKeyStore {
+  private entries: Map<string, SkippedKeyEntry> = new Map()
+  private perPeer: Map<string, number> = new Map()
+  private evicted: Set<string> = new Set()
+  private counts = { evictedPerPeer: 0, evictedGlobal: 0, expired: 0, missed: 0 }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  add(peerId: string, epoch: number, counter: number, key: CryptoKey, now: number = Date.now()): void {
+    this.expire(now)
+    const id = entryId(peerId, epoch, counter)
+    if (this.entries.has(id)) return
+    if ((this.perPeer.get(peerId) ?? 0) >= MAX_SKIPPED_KEYS_PER_PEER) {
+      const oldest = Array.from(this.entries).find(([, entry]) => entry.peerId === peerId)
+      if (oldest) {
+        this.evict(oldest[0])
+        this.counts.evictedPerPeer++
+      }
+    }
+    if (this.entries.size >= MAX_SKIPPED_KEYS) {
+      this.evict(this.entries.keys().next().value!)
+      this.counts.evictedGlobal++
+    }
+    this.entries.set(id, { peerId, epoch, key, storedAt: now })
+    this.perPeer.set(peerId, (this.perPeer.get(peerId) ?? 0) + 1)
+  }
+
+  get(peerId: string, epoch: number, counter: number, now: number = Date.now()): CryptoKey | null {
+    this.expire(now)
+    return this.entries.get(entryId(peerId, epoch, counter))?.key ?? null
+  }
+
+  delete(peerId: string, epoch: number, counter: number): void {
+    this.remove(entryId(peerId, epoch, counter))
+  }
+
+  // Reports a late message whose key was thrown away by a cap or by expiry
+  wasEvicted(peerId: string, epoch: number, counter: number): boolean {
+    const evicted = this.evicted.has(entryId(peerId, epoch, counter))
+    if (evicted) this.counts.missed++
+    return evicted
+  }
+
+  expire(now: number = Date.now()): void {
+    for (const [id, entry] of this.entries) {
+      if (now - entry.storedAt < SKIPPED_KEY_TTL_MS) break
+      this.evict(id)
+      this.counts.expired++
+    }
+  }
+
+  nextExpiry(): number | null {
+    const oldest = this.entries.values().next().value
+    return oldest ? oldest.storedAt + SKIPPED_KEY_TTL_MS : null
+  }
+
+  discard(matches: (peerId: string, epoch: number) => boolean): void {
+    for (const [id, entry] of this.entries) {
+      if (matches(entry.peerId, entry.epoch)) this.remove(id)
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.perPeer.clear()
+    this.evicted.clear()
+  }
+
+  metrics(): SkippedKeyMetrics {
+    return { stored: this.entries.size, ...this.counts }
+  }
+
+  private evict(id: string): void {
+    this.remove(id)
+    this.evicted.add(id)
+    if (this.evicted.size > MAX_SKIPPED_KEYS) this.evicted.delete(this.evicted.values().next().value!)
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+    this.entries.delete(id)
+    const remaining = (this.perPeer.get(entry.peerId) ?? 1) - 1
+    if (remaining > 0) {
+      this.perPeer.set(entry.peerId, remaining)
+    } else {
+      this.perPeer.delete(entry.peerId)
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { getKeyValueStore, type StorageOptions } from '../storage/storage'
+
 export type VerificationStatus = 'unverified' | 'verified' | 'key_changed'
 
 export interface StoredPeerKey {
@@ -22,8 +24,8 @@ function getKeyLookupKey(roomId: string, publicKeyBase64: string): string {
   return JSON.stringify([roomId, publicKeyBase64])
 }
 
-function loadTofuStore(): TofuStore {
-  const stored = localStorage.getItem(STORAGE_KEY)
+function loadTofuStore(storage: StorageOptions): TofuStore {
+  const stored = getKeyValueStore(storage).getItem(STORAGE_KEY)
   if (!stored) return { version: 1, peers: {} }
   try {
     return JSON.parse(stored)
@@ -32,8 +34,8 @@ function loadTofuStore(): TofuStore {
   }
 }
 
-function saveTofuStore(store: TofuStore): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+function saveTofuStore(store: TofuStore, storage: StorageOptions): void {
+  getKeyValueStore(storage).setItem(STORAGE_KEY, JSON.stringify(store))
 }
 
 function isVerificationExpired(record: StoredPeerKey): boolean {
@@ -42,17 +44,17 @@ function isVerificationExpired(record: StoredPeerKey): boolean {
   return Date.now() - record.verifiedAt > VERIFICATION_MAX_AGE_MS
 }
 
-export function getStoredKey(roomId: string, publicKeyBase64: string): StoredPeerKey | null {
-  const store = loadTofuStore()
+export function getStoredKey(roomId: string, publicKeyBase64: string, storage: StorageOptions = {}): StoredPeerKey | null {
+  const store = loadTofuStore(storage)
   const key = getKeyLookupKey(roomId, publicKeyBase64)
   return store.peers[key] || null
 }
 
-export function getStoredPeerKey(roomId: string, peerId: string, publicKeyBase64?: string): StoredPeerKey | null {
+export function getStoredPeerKey(roomId: string, peerId: string, publicKeyBase64?: string, storage: StorageOptions = {}): StoredPeerKey | null {
   if (publicKeyBase64) {
-    return getStoredKey(roomId, publicKeyBase64)
+    return getStoredKey(roomId, publicKeyBase64, storage)
   }
-  const store = loadTofuStore()
+  const store = loadTofuStore(storage)
   for (const record of Object.values(store.peers)) {
     if (record.roomId === roomId && record.peerId === peerId) {
       return record
@@ -61,8 +63,8 @@ export function getStoredPeerKey(roomId: string, peerId: string, publicKeyBase64
   return null
 }
 
-export function storePeerKey(roomId: string, peerId: string, publicKeyBase64: string): StoredPeerKey {
-  const store = loadTofuStore()
+export function storePeerKey(roomId: string, peerId: string, publicKeyBase64: string, storage: StorageOptions = {}): StoredPeerKey {
+  const store = loadTofuStore(storage)
   const key = getKeyLookupKey(roomId, publicKeyBase64)
   const existing = store.peers[key]
   const now = Date.now()
@@ -78,7 +80,7 @@ export function storePeerKey(roomId: string, peerId: string, publicKeyBase64: st
   }
 
   store.peers[key] = record
-  saveTofuStore(store)
+  saveTofuStore(store, storage)
   return record
 }
 
@@ -88,8 +90,8 @@ export interface KeyCheckResult {
   isNewKey: boolean
 }
 
-export function checkPeerKey(roomId: string, peerId: string, publicKeyBase64: string): KeyCheckResult {
-  const store = loadTofuStore()
+export function checkPeerKey(roomId: string, peerId: string, publicKeyBase64: string, storage: StorageOptions = {}): KeyCheckResult {
+  const store = loadTofuStore(storage)
   const key = getKeyLookupKey(roomId, publicKeyBase64)
   const stored = store.peers[key]
 
@@ -103,16 +105,16 @@ export function checkPeerKey(roomId: string, peerId: string, publicKeyBase64: st
   if (isVerificationExpired(stored)) {
     store.peers[key].status = 'unverified'
     store.peers[key].verifiedAt = undefined
-    saveTofuStore(store)
+    saveTofuStore(store, storage)
     return { status: 'unverified', stored: store.peers[key], isNewKey: false }
   }
 
-  saveTofuStore(store)
+  saveTofuStore(store, storage)
   return { status: stored.status, stored: store.peers[key], isNewKey: false }
 }
 
-export function markAsVerified(roomId: string, peerId: string, publicKeyBase64: string): void {
-  const store = loadTofuStore()
+export function markAsVerified(roomId: string, peerId: string, publicKeyBase64: string, storage: StorageOptions = {}): void {
+  const store = loadTofuStore(storage)
   const key = getKeyLookupKey(roomId, publicKeyBase64)
   if (store.peers[key]) {
     const now = Date.now()
@@ -120,26 +122,22 @@ export function markAsVerified(roomId: string, peerId: string, publicKeyBase64:
     store.peers[key].verifiedAt = now
     store.peers[key].lastSeen = now
     store.peers[key].peerId = peerId
-    saveTofuStore(store)
+    saveTofuStore(store, storage)
   }
 }
 
-export function resetVerification(roomId: string, publicKeyBase64: string): void {
-  const store = loadTofuStore()
+export function resetVerification(roomId: string, publicKeyBase64: string, storage: StorageOptions = {}): void {
+  const store = loadTofuStore(storage)
   const key = getKeyLookupKey(roomId, publicKeyBase64)
   if (store.peers[key]) {
     store.peers[key].status = 'unverified'
     store.peers[key].verifiedAt = undefined
-    saveTofuStore(store)
+    saveTofuStore(store, storage)
   }
 }
 
-export async function generateSafetyNumber(myPublicKey: string, peerPublicKey: string): Promise<string> {
-  const sorted = [myPublicKey, peerPublicKey].sort()
-  const combined = sorted.join('')
-  const data = new TextEncoder().encode(combined)
-  let hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  let bytes = new Uint8Array(hashBuffer)
+export async function formatSafetyNumber(seed: Uint8Array): Promise<string> {
+  let bytes = new Uint8Array(await crypto.subtle.digest('SHA-256', seed as BufferSource))
 
   const limit = 4294900000
   const groups: string[] = []
@@ -147,8 +145,7 @@ export async function generateSafetyNumber(myPublicKey: string, peerPublicKey: s
 
   while (groups.length < 6) {
     if (offset + 4 > bytes.length) {
-      hashBuffer = await crypto.subtle.digest('SHA-256', bytes)
-      bytes = new Uint8Array(hashBuffer)
+      bytes = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
       offset = 0
     }
 
@@ -162,3 +159,16 @@ export async function generateSafetyNumber(myPublicKey: string, peerPublicKey: s
 
   return groups.join(' ')
 }
+
+export async function generateSafetyNumber(myPublicKey: string, peerPublicKey: string): Promise<string> {
+  const sorted = [myPublicKey, peerPublicKey].sort()
+  return formatSafetyNumber(new TextEncoder().encode(sorted.join('')))
+}
+
+export async function generateGroupSafetyNumber(epochAuthenticator: Uint8Array): Promise<string> {
+  const context = new TextEncoder().encode('parrhesia-group-safety-number-v1')
+  const seed = new Uint8Array(context.length + epochAuthenticator.length)
+  seed.set(context)
+  seed.set(epochAuthenticator, context.length)
+  return formatSafetyNumber(seed)
+}
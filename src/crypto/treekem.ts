@@ -1,23 +1,49 @@
 import {
-  mlKemEncapsulate,
-  mlKemDecapsulate,
   deriveKemKey,
   encrypt,
   decrypt,
   uint8ArrayToBase64,
   base64ToUint8Array,
-  generateMlKemKeyPair,
+  bytesEqual,
   type MlKemKeyPair
 } from './crypto'
+import {
+  CIPHER_SUITE_HYBRID,
+  CIPHER_SUITE_MLKEM,
+  KEM_SEED_LENGTH,
+  isHybridPublicKey
+} from './kem'
+import { callCrypto } from './cryptoClient'
 
 const TREE_NODE_INFO = new TextEncoder().encode('parrhesia-tree-node')
+const TREE_NODE_KEY_INFO = new TextEncoder().encode('parrhesia-tree-node-key')
 const TREE_ROOT_INFO = new TextEncoder().encode('parrhesia-tree-root')
+const TREE_HASH_CONTEXT = new TextEncoder().encode('parrhesia-tree-hash-v1')
+const TRANSCRIPT_HASH_CONTEXT = new TextEncoder().encode('parrhesia-transcript-hash-v1')
+const EPOCH_AUTHENTICATOR_INFO = new TextEncoder().encode('parrhesia-epoch-authenticator-v1')
 const HKDF_SALT = new Uint8Array(32)
 
 export interface TreeNode {
   publicKey: Uint8Array | null
   secretKey: Uint8Array | null
   secret: Uint8Array | null
+  signingKey: Uint8Array | null
+  unmergedLeaves: number[]
+}
+
+export interface SerializedTreeNode {
+  publicKey: string | null
+  secretKey: string | null
+  secret: string | null
+  signingKey: string | null
+  unmergedLeaves: number[]
+}
+
+export interface SerializedTree {
+  nodes: (SerializedTreeNode | null)[]
+  numLeaves: number
+  myLeafPos: number
+  transcriptHash: string
 }
 
 export interface TreeKemRecipient {
@@ -37,6 +63,8 @@ export interface TreeKemCommit {
   leafPublicKey: string
   path: TreeKemPathEntry[]
   epoch: number
+  treeHash: string
+  signature: string
 }
 
 export interface TreeKemWelcome {
@@ -45,6 +73,19 @@ export interface TreeKemWelcome {
   myLeafPos: number
   pathSecrets: TreeKemPathEntry[]
   epoch: number
+  leafSigningKeys: (string | null)[]
+  unmergedLeaves: number[][]
+  transcriptHash: string
+  signerLeafPos: number
+  signature: string
+}
+
+export function pathEntryFields(entry: TreeKemPathEntry): unknown[] {
+  return [
+    entry.nodeIndex,
+    entry.newPublicKey,
+    entry.recipients.map(r => [r.targetNodeIndex, r.mlKemCiphertext, r.encryptedSecret])
+  ]
 }
 
 export function nodeLevel(index: number): number {
@@ -166,6 +207,16 @@ async function deriveNodeSecret(childSecret: Uint8Array): Promise<Uint8Array> {
   return new Uint8Array(bits)
 }
 
+async function deriveNodeKeyPair(nodeSecret: Uint8Array, cipherSuite: number): Promise<MlKemKeyPair> {
+  const keyMaterial = await crypto.subtle.importKey('raw', nodeSecret as BufferSource, 'HKDF', false, ['deriveBits'])
+  const seed = await crypto.subtle.deriveBits(
+    { name: 'HKDF', salt: HKDF_SALT as BufferSource, info: TREE_NODE_KEY_INFO as BufferSource, hash: 'SHA-256' },
+    keyMaterial,
+    KEM_SEED_LENGTH * 8
+  )
+  return callCrypto('deriveKemKeyPair', new Uint8Array(seed), cipherSuite)
+}
+
 export async function deriveRootGroupKey(rootSecret: Uint8Array): Promise<CryptoKey> {
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -184,7 +235,7 @@ export async function deriveRootGroupKey(rootSecret: Uint8Array): Promise<Crypto
 }
 
 async function encryptToNode(secret: Uint8Array, recipientPub: Uint8Array): Promise<{ mlKemCiphertext: string; encryptedSecret: string }> {
-  const { ciphertext, sharedSecret } = await mlKemEncapsulate(recipientPub)
+  const { ciphertext, sharedSecret } = await callCrypto('kemEncapsulate', recipientPub)
   const kemKey = await deriveKemKey(sharedSecret)
   const secretB64 = uint8ArrayToBase64(secret)
   const encryptedSecret = await encrypt(kemKey, secretB64)
@@ -196,23 +247,43 @@ async function encryptToNode(secret: Uint8Array, recipientPub: Uint8Array): Prom
 
 async function decryptFromNode(mlKemCt: string, encryptedSecret: string, mySecretKey: Uint8Array): Promise<Uint8Array> {
   const ct = base64ToUint8Array(mlKemCt)
-  const ss = await mlKemDecapsulate(ct, mySecretKey)
+  const ss = await callCrypto('kemDecapsulate', ct, mySecretKey)
   const kemKey = await deriveKemKey(ss)
   const secretB64 = await decrypt(kemKey, encryptedSecret)
   return base64ToUint8Array(secretB64)
 }
 
+function encodeLength(n: number): Uint8Array {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, n)
+  return bytes
+}
+
+function lengthPrefixed(value: Uint8Array | null): Uint8Array[] {
+  return value ? [encodeLength(value.length), value] : [encodeLength(0)]
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
 function ensureNode(nodes: (TreeNode | null)[], index: number): TreeNode {
   while (nodes.length <= index) nodes.push(null)
   if (!nodes[index]) {
-    nodes[index] = { publicKey: null, secretKey: null, secret: null }
+    nodes[index] = { publicKey: null, secretKey: null, secret: null, signingKey: null, unmergedLeaves: [] }
   }
   return nodes[index]!
 }
 
 function blankNode(nodes: (TreeNode | null)[], index: number): void {
   if (index < nodes.length && nodes[index]) {
-    nodes[index] = { publicKey: null, secretKey: null, secret: null }
+    nodes[index] = { publicKey: null, secretKey: null, secret: null, signingKey: null, unmergedLeaves: [] }
   }
 }
 
@@ -220,19 +291,21 @@ export class TreeKemState {
   nodes: (TreeNode | null)[] = []
   numLeaves: number = 0
   myLeafPos: number = 0
+  transcriptHash: Uint8Array = new Uint8Array(32)
 
-  static createForCreator(mlKemPub: Uint8Array, mlKemSk: Uint8Array): TreeKemState {
+  static createForCreator(mlKemPub: Uint8Array, mlKemSk: Uint8Array, signingKey: Uint8Array): TreeKemState {
     const state = new TreeKemState()
     state.numLeaves = 1
     state.myLeafPos = 0
     const node = ensureNode(state.nodes, 0)
     node.publicKey = mlKemPub
     node.secretKey = mlKemSk
+    node.signingKey = signingKey
     node.secret = crypto.getRandomValues(new Uint8Array(32))
     return state
   }
 
-  addLeaf(mlKemPublicKey: Uint8Array): number {
+  addLeaf(mlKemPublicKey: Uint8Array, signingKey: Uint8Array): number {
     const leafPos = this.numLeaves
     this.numLeaves++
     const nodeIdx = 2 * leafPos
@@ -240,13 +313,11 @@ export class TreeKemState {
     node.publicKey = mlKemPublicKey
     node.secretKey = null
     node.secret = null
-    const dp = directPath(leafPos, this.numLeaves)
-    for (const idx of dp) {
-      blankNode(this.nodes, idx)
-    }
-    const oldDp = directPath(this.myLeafPos, this.numLeaves)
-    for (const idx of oldDp) {
-      ensureNode(this.nodes, idx)
+    node.signingKey = signingKey
+    // The new member cannot open the keys above it until a commit covers its path
+    for (const idx of directPath(leafPos, this.numLeaves)) {
+      const parentNode = this.nodes[idx]
+      if (parentNode?.publicKey) parentNode.unmergedLeaves.push(leafPos)
     }
     return leafPos
   }
@@ -266,8 +337,10 @@ export class TreeKemState {
     const leafSecret = crypto.getRandomValues(new Uint8Array(32))
     const leafNode = ensureNode(this.nodes, leafNodeIdx)
     leafNode.secret = leafSecret
+    const pathSuite = this.cipherSuite()
 
-    const newLeafKp = await generateMlKemKeyPair()
+    const leafSuite = leafNode.publicKey && isHybridPublicKey(leafNode.publicKey) ? CIPHER_SUITE_HYBRID : CIPHER_SUITE_MLKEM
+    const newLeafKp = await callCrypto('generateKemKeyPair', leafSuite)
     leafNode.publicKey = newLeafKp.publicKey
     leafNode.secretKey = newLeafKp.secretKey
 
@@ -282,19 +355,19 @@ export class TreeKemState {
       const copathNodeIdx = cp[i]
 
       currentSecret = await deriveNodeSecret(currentSecret)
+      const kp = await deriveNodeKeyPair(currentSecret, pathSuite)
       const pathNode = ensureNode(this.nodes, pathNodeIdx)
       pathNode.secret = currentSecret
-
-      const kp = await generateMlKemKeyPair()
       pathNode.publicKey = kp.publicKey
       pathNode.secretKey = kp.secretKey
+      pathNode.unmergedLeaves = []
 
       const recipients: TreeKemRecipient[] = []
-      for (const leafIdx of this.resolveLeaves(copathNodeIdx)) {
-        const leafPub = this.nodes[leafIdx]?.publicKey
-        if (!leafPub) continue
-        const { mlKemCiphertext, encryptedSecret } = await encryptToNode(currentSecret, leafPub)
-        recipients.push({ targetNodeIndex: leafIdx, mlKemCiphertext, encryptedSecret })
+      for (const nodeIdx of this.resolution(copathNodeIdx)) {
+        const nodePub = this.nodes[nodeIdx]?.publicKey
+        if (!nodePub) continue
+        const { mlKemCiphertext, encryptedSecret } = await encryptToNode(currentSecret, nodePub)
+        recipients.push({ targetNodeIndex: nodeIdx, mlKemCiphertext, encryptedSecret })
       }
       pathEntries.push({
         nodeIndex: pathNodeIdx,
@@ -307,22 +380,137 @@ export class TreeKemState {
       committerLeafPos: this.myLeafPos,
       leafPublicKey: uint8ArrayToBase64(newLeafKp.publicKey),
       path: pathEntries,
-      epoch: 0
+      epoch: 0,
+      treeHash: '',
+      signature: ''
+    }
+  }
+
+  clone(): TreeKemState {
+    const copy = new TreeKemState()
+    copy.nodes = this.nodes.map(node => node ? { ...node, unmergedLeaves: [...node.unmergedLeaves] } : null)
+    copy.numLeaves = this.numLeaves
+    copy.myLeafPos = this.myLeafPos
+    copy.transcriptHash = this.transcriptHash
+    return copy
+  }
+
+  // One ML-KEM-only leaf keeps parent nodes on ML-KEM alone so that member can still use them
+  cipherSuite(): number {
+    for (let leafPos = 0; leafPos < this.numLeaves; leafPos++) {
+      const key = this.nodes[2 * leafPos]?.publicKey
+      if (key && !isHybridPublicKey(key)) return CIPHER_SUITE_MLKEM
+    }
+    return CIPHER_SUITE_HYBRID
+  }
+
+  serialize(): SerializedTree {
+    const encode = (value: Uint8Array | null) => value ? uint8ArrayToBase64(value) : null
+    return {
+      nodes: this.nodes.map(node => node ? {
+        publicKey: encode(node.publicKey),
+        secretKey: encode(node.secretKey),
+        secret: encode(node.secret),
+        signingKey: encode(node.signingKey),
+        unmergedLeaves: node.unmergedLeaves
+      } : null),
+      numLeaves: this.numLeaves,
+      myLeafPos: this.myLeafPos,
+      transcriptHash: uint8ArrayToBase64(this.transcriptHash)
     }
   }
 
-  private resolveLeaves(nodeIdx: number): number[] {
-    if (isLeaf(nodeIdx)) {
-      const node = nodeIdx < this.nodes.length ? this.nodes[nodeIdx] : null
-      return node && node.publicKey ? [nodeIdx] : []
+  static deserialize(data: SerializedTree): TreeKemState {
+    const decode = (value: string | null) => value ? base64ToUint8Array(value) : null
+    const state = new TreeKemState()
+    state.nodes = data.nodes.map(node => node ? {
+      publicKey: decode(node.publicKey),
+      secretKey: decode(node.secretKey),
+      secret: decode(node.secret),
+      signingKey: decode(node.signingKey),
+      unmergedLeaves: node.unmergedLeaves
+    } : null)
+    state.numLeaves = data.numLeaves
+    state.myLeafPos = data.myLeafPos
+    state.transcriptHash = base64ToUint8Array(data.transcriptHash)
+    return state
+  }
+
+  leafSigningKey(leafPos: number): Uint8Array | null {
+    if (leafPos < 0 || leafPos >= this.numLeaves) return null
+    return this.nodes[2 * leafPos]?.signingKey ?? null
+  }
+
+  findLeaf(signingKey: Uint8Array, exclude: Set<number> = new Set()): number | null {
+    for (let leafPos = 0; leafPos < this.numLeaves; leafPos++) {
+      if (exclude.has(leafPos)) continue
+      const key = this.leafSigningKey(leafPos)
+      if (key && bytesEqual(key, signingKey)) return leafPos
     }
-    if (nodeLevel(nodeIdx) > 0) {
-      return [
-        ...this.resolveLeaves(leftChild(nodeIdx)),
-        ...this.resolveLeaves(rightChild(nodeIdx, this.numLeaves))
-      ]
+    return null
+  }
+
+  async treeHash(): Promise<Uint8Array> {
+    const parts: Uint8Array[] = [TREE_HASH_CONTEXT, encodeLength(this.numLeaves)]
+    for (let i = 0; i < 2 * this.numLeaves - 1; i++) {
+      const node = this.nodes[i]
+      parts.push(...lengthPrefixed(node?.publicKey ?? null))
+      if (isLeaf(i)) {
+        parts.push(...lengthPrefixed(node?.signingKey ?? null))
+      } else {
+        const unmerged = node?.unmergedLeaves ?? []
+        parts.push(encodeLength(unmerged.length), ...unmerged.map(encodeLength))
+      }
+    }
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', concatBytes(parts) as BufferSource))
+  }
+
+  async recordCommit(commit: TreeKemCommit): Promise<void> {
+    const fields = new TextEncoder().encode(JSON.stringify([
+      commit.epoch,
+      commit.treeHash,
+      commit.committerLeafPos,
+      commit.leafPublicKey,
+      commit.path.map(pathEntryFields),
+      commit.signature
+    ]))
+    const input = concatBytes([TRANSCRIPT_HASH_CONTEXT, this.transcriptHash, fields])
+    this.transcriptHash = new Uint8Array(await crypto.subtle.digest('SHA-256', input as BufferSource))
+  }
+
+  // Only members holding the root secret of the same tree after the same commits derive the same value
+  async epochAuthenticator(): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey('raw', this.getRootSecret() as BufferSource, 'HKDF', false, ['deriveBits'])
+    const info = concatBytes([EPOCH_AUTHENTICATOR_INFO, await this.treeHash(), this.transcriptHash])
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'HKDF', salt: HKDF_SALT as BufferSource, info: info as BufferSource, hash: 'SHA-256' },
+      keyMaterial,
+      256
+    )
+    return new Uint8Array(bits)
+  }
+
+  // The fewest keys that together reach every member below a node: the node itself plus any
+  // leaves added since its key was set, or the resolutions of its children when it is blank
+  resolution(nodeIdx: number): number[] {
+    const node = this.nodes[nodeIdx]
+    if (node?.publicKey) return [nodeIdx, ...node.unmergedLeaves.map(leafPos => 2 * leafPos)]
+    if (isLeaf(nodeIdx)) return []
+    return [
+      ...this.resolution(leftChild(nodeIdx)),
+      ...this.resolution(rightChild(nodeIdx, this.numLeaves))
+    ]
+  }
+
+  private async adoptPathSecret(nodeIdx: number, secret: Uint8Array): Promise<void> {
+    const node = ensureNode(this.nodes, nodeIdx)
+    const suite = node.publicKey && isHybridPublicKey(node.publicKey) ? CIPHER_SUITE_HYBRID : CIPHER_SUITE_MLKEM
+    const kp = await deriveNodeKeyPair(secret, suite)
+    if (!node.publicKey || !bytesEqual(node.publicKey, kp.publicKey)) {
+      throw new Error('Path secret does not match the node key')
     }
-    return []
+    node.secret = secret
+    node.secretKey = kp.secretKey
   }
 
   async processCommit(commit: TreeKemCommit): Promise<Uint8Array> {
@@ -337,6 +525,7 @@ export class TreeKemState {
       node.publicKey = base64ToUint8Array(entry.newPublicKey)
       node.secretKey = null
       node.secret = null
+      node.unmergedLeaves = []
     }
 
     const committerDp = directPath(commit.committerLeafPos, this.numLeaves)
@@ -365,14 +554,11 @@ export class TreeKemState {
       throw new Error('Could not decrypt any path node in commit')
     }
 
-    const pathNode = ensureNode(this.nodes, committerDp[decryptedAtIdx])
-    pathNode.secret = decryptedSecret
-
     let currentSecret: Uint8Array = decryptedSecret
+    await this.adoptPathSecret(committerDp[decryptedAtIdx], currentSecret)
     for (let i = decryptedAtIdx + 1; i < committerDp.length; i++) {
       currentSecret = await deriveNodeSecret(currentSecret)
-      const node = ensureNode(this.nodes, committerDp[i])
-      node.secret = currentSecret
+      await this.adoptPathSecret(committerDp[i], currentSecret)
     }
 
     const r = root(this.numLeaves)
@@ -381,26 +567,29 @@ export class TreeKemState {
     return rootNode.secret
   }
 
-  async generateWelcome(joinerLeafPos: number, peerMlKemPub: Uint8Array, epoch: number): Promise<TreeKemWelcome> {
+  async generateWelcome(joinerLeafPos: number, epoch: number): Promise<TreeKemWelcome> {
+    const joinerPub = this.nodes[2 * joinerLeafPos]?.publicKey
+    if (!joinerPub) throw new Error(`No leaf key for leaf ${joinerLeafPos}`)
     const treePublicKeys: (string | null)[] = []
-    for (let i = 0; i < this.nodes.length; i++) {
+    const unmergedLeaves: number[][] = []
+    const width = Math.min(this.nodes.length, 2 * this.numLeaves - 1)
+    for (let i = 0; i < width; i++) {
       const node = this.nodes[i]
       if (node && node.publicKey) {
         treePublicKeys.push(uint8ArrayToBase64(node.publicKey))
       } else {
         treePublicKeys.push(null)
       }
+      unmergedLeaves.push(node ? [...node.unmergedLeaves] : [])
     }
 
-    treePublicKeys[2 * joinerLeafPos] = uint8ArrayToBase64(peerMlKemPub)
-
     const dp = directPath(joinerLeafPos, this.numLeaves)
     const pathSecrets: TreeKemPathEntry[] = []
 
     for (const nodeIdx of dp) {
       const node = this.nodes[nodeIdx]
       if (node && node.secret) {
-        const { mlKemCiphertext, encryptedSecret } = await encryptToNode(node.secret, peerMlKemPub)
+        const { mlKemCiphertext, encryptedSecret } = await encryptToNode(node.secret, joinerPub)
         pathSecrets.push({
           nodeIndex: nodeIdx,
           newPublicKey: node.publicKey ? uint8ArrayToBase64(node.publicKey) : '',
@@ -410,12 +599,23 @@ export class TreeKemState {
       }
     }
 
+    const leafSigningKeys: (string | null)[] = []
+    for (let leafPos = 0; leafPos < this.numLeaves; leafPos++) {
+      const key = this.leafSigningKey(leafPos)
+      leafSigningKeys.push(key ? uint8ArrayToBase64(key) : null)
+    }
+
     return {
       treePublicKeys,
       numLeaves: this.numLeaves,
       myLeafPos: joinerLeafPos,
       pathSecrets,
-      epoch
+      epoch,
+      leafSigningKeys,
+      unmergedLeaves,
+      transcriptHash: uint8ArrayToBase64(this.transcriptHash),
+      signerLeafPos: this.myLeafPos,
+      signature: ''
     }
   }
 
@@ -423,6 +623,7 @@ export class TreeKemState {
     const state = new TreeKemState()
     state.numLeaves = welcome.numLeaves
     state.myLeafPos = welcome.myLeafPos
+    state.transcriptHash = base64ToUint8Array(welcome.transcriptHash)
 
     for (let i = 0; i < welcome.treePublicKeys.length; i++) {
       const pk = welcome.treePublicKeys[i]
@@ -432,9 +633,20 @@ export class TreeKemState {
       }
     }
 
+    for (let leafPos = 0; leafPos < welcome.leafSigningKeys.length; leafPos++) {
+      const key = welcome.leafSigningKeys[leafPos]
+      if (key) ensureNode(state.nodes, 2 * leafPos).signingKey = base64ToUint8Array(key)
+    }
+
+    for (let i = 0; i < welcome.unmergedLeaves.length; i++) {
+      if (welcome.unmergedLeaves[i].length > 0) ensureNode(state.nodes, i).unmergedLeaves = [...welcome.unmergedLeaves[i]]
+    }
+
     const myNodeIdx = 2 * state.myLeafPos
     const myNode = ensureNode(state.nodes, myNodeIdx)
-    myNode.publicKey = myMlKemKeyPair.publicKey
+    if (!myNode.publicKey || !bytesEqual(myNode.publicKey, myMlKemKeyPair.publicKey)) {
+      throw new Error('Welcome is not addressed to our leaf key')
+    }
     myNode.secretKey = myMlKemKeyPair.secretKey
 
     if (welcome.pathSecrets.length > 0) {
@@ -449,14 +661,11 @@ export class TreeKemState {
       const dp = directPath(state.myLeafPos, state.numLeaves)
       const entryDpIdx = dp.indexOf(entry.nodeIndex)
       if (entryDpIdx >= 0) {
-        const node = ensureNode(state.nodes, entry.nodeIndex)
-        node.secret = decryptedSecret
-
         let currentSecret: Uint8Array = decryptedSecret
+        await state.adoptPathSecret(entry.nodeIndex, currentSecret)
         for (let i = entryDpIdx + 1; i < dp.length; i++) {
           currentSecret = await deriveNodeSecret(currentSecret)
-          const pathNode = ensureNode(state.nodes, dp[i])
-          pathNode.secret = currentSecret
+          await state.adoptPathSecret(dp[i], currentSecret)
         }
       }
     }
@@ -464,6 +673,11 @@ export class TreeKemState {
     return state
   }
 
+  leafKeyPair(): MlKemKeyPair | null {
+    const node = this.nodes[2 * this.myLeafPos]
+    return node?.publicKey && node.secretKey ? { publicKey: node.publicKey, secretKey: node.secretKey } : null
+  }
+
   getRootSecret(): Uint8Array {
     const r = root(this.numLeaves)
     const rootNode = this.nodes[r]
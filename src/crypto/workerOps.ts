@@ -0,0 +1,59 @@
+import { sign, verify } from './primitives'
+import { deriveKemKeyPair, generateKemKeyPair, kemDecapsulate, kemEncapsulate } from './kem'
+
+const signingKeys: Map<number, Uint8Array> = new Map()
+let nextHandle = 1
+
+// Everything here runs inside the crypto worker. Only the identity signing key stays here, behind a handle;
+// KEM key pairs are returned to the caller and decapsulation takes the secret key as an argument, because
+// the tree derives node keys from path secrets that the page holds anyway
+export const cryptoOps = {
+  importSigningKey(secretKey: Uint8Array): number {
+    const handle = nextHandle++
+    signingKeys.set(handle, secretKey.slice())
+    return handle
+  },
+
+  releaseSigningKey(handle: number): void {
+    signingKeys.get(handle)?.fill(0)
+    signingKeys.delete(handle)
+  },
+
+  sign(handle: number, data: Uint8Array): Uint8Array {
+    const secretKey = signingKeys.get(handle)
+    if (!secretKey) throw new Error('Unknown signing key')
+    return sign(secretKey, data)
+  },
+
+  verify(publicKey: Uint8Array, data: Uint8Array, signature: Uint8Array): boolean {
+    return verify(publicKey, data, signature)
+  },
+
+  generateKemKeyPair,
+  deriveKemKeyPair,
+  kemEncapsulate,
+  kemDecapsulate
+}
+
+export type CryptoOps = typeof cryptoOps
+export type CryptoOp = keyof CryptoOps
+export type CryptoResult<K extends CryptoOp> = Awaited<ReturnType<CryptoOps[K]>>
+
+export interface CryptoRequest<K extends CryptoOp = CryptoOp> {
+  id: number
+  op: K
+  args: Parameters<CryptoOps[K]>
+}
+
+export type CryptoResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string }
+
+export async function handleCryptoRequest(request: CryptoRequest): Promise<CryptoResponse> {
+  try {
+    const op = cryptoOps[request.op] as (...args: unknown[]) => unknown
+    return { id: request.id, ok: true, result: await op(...request.args) }
+  } catch (err) {
+    return { id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+}
@@ -0,0 +1,40 @@
+import { ChatConnection } from './network/websocket'
+import { getDefaultRelay, normalizeRelayUrl } from './network/config'
+import { createWebSocketTransport, type TransportFactory } from './network/transport'
+import type { RekeyPolicy } from './network/rekey'
+import type { StorageOptions } from './storage/storage'
+
+export { ChatConnection, createRoom, checkRoom } from './network/websocket'
+export type { ChatConnectionOptions } from './network/websocket'
+export type {
+  ChatEvents,
+  ConnectionState,
+  ConnectionStatus,
+  NoticeCode,
+  PeerEvent,
+  RejectionReason,
+  SecurityEvent
+} from './network/events'
+export { createWebSocketTransport } from './network/transport'
+export type { Transport, TransportFactory, TransportHandlers } from './network/transport'
+export { LocalRelay } from './network/loopback'
+export { configureStorage, MemoryKeyValueStore, MemorySecureStore } from './storage/storage'
+export type { KeyValueStore, SecureStore, StorageOptions } from './storage/storage'
+export type { DeliveryState } from './network/outbox'
+export { DEFAULT_REKEY_POLICY } from './network/rekey'
+export type { RekeyPolicy } from './network/rekey'
+
+export interface HeadlessClientOptions {
+  relay?: string
+  storage?: StorageOptions
+  transport?: TransportFactory
+  rekeyPolicy?: Partial<RekeyPolicy>
+}
+
+export function createClient(roomId: string, options: HeadlessClientOptions = {}): ChatConnection {
+  const { rekeyPolicy, storage } = options
+  if (options.transport) return new ChatConnection(roomId, { transport: options.transport, rekeyPolicy, storage })
+  const relay = options.relay ? normalizeRelayUrl(options.relay) : getDefaultRelay()
+  if (!relay) throw new Error('Invalid relay URL')
+  return new ChatConnection(roomId, { transport: createWebSocketTransport(relay), rekeyPolicy, storage })
+}
@@ -1,8 +1,23 @@
 import './styles/style.css'
 import { ChatConnection, createRoom, checkRoom } from './network/websocket'
+import type { ChatEvents, ConnectionStatus, NoticeCode, RejectionReason, SecurityEvent } from './network/events'
+import { createWebSocketTransport } from './network/transport'
+import type { DeliveryState } from './network/outbox'
+import {
+  allowRelay,
+  getDefaultRelay,
+  getPreferredRelay,
+  isRelayAllowed,
+  normalizeRelayUrl,
+  relayLabel,
+  resolveRoomRelay,
+  setPreferredRelay,
+  setRoomRelay
+} from './network/config'
 import type { PeerColor } from './crypto/crypto'
 import { encryptMessages, decryptMessages, isEncryptedData, clearLegacyStorage } from './crypto/crypto'
 import { getStoredPeerKey, markAsVerified, generateSafetyNumber } from './crypto/tofu'
+import { deleteGroupState } from './crypto/groupState'
 import { generateQRCode, initializeScanner, scanQRCode, stopScanner, fingerprintKey } from './utils/qr'
 import { initTabSync, isRoomOccupied, onRoomJoined, onRoomLeft } from './utils/tabSync'
 import { renderMarkdown } from './utils/markdown'
@@ -30,6 +45,18 @@ function setTheme(theme: 'light' | 'dark' | null): void {
   }
 }
 
+function getReadReceiptsEnabled(): boolean {
+  return localStorage.getItem('parrhesia-read-receipts') !== 'off'
+}
+
+function setReadReceiptsEnabled(enabled: boolean): void {
+  if (enabled) {
+    localStorage.removeItem('parrhesia-read-receipts')
+  } else {
+    localStorage.setItem('parrhesia-read-receipts', 'off')
+  }
+}
+
 function getCurrentEffectiveTheme(): 'light' | 'dark' {
   return getTheme() || 'light'
 }
@@ -73,9 +100,15 @@ interface Message {
   isSystem?: boolean
   isNotification?: boolean
   verified?: boolean
+  messageId?: string
+  delivery?: DeliveryState
+  readBy?: { peerId: string; color: PeerColor }[]
+  readSent?: boolean
 }
 
 let currentRoomId = ''
+const unattachedDeliveryStates: Map<string, DeliveryState> = new Map()
+let currentRelay = ''
 let messageEncryptionKey: CryptoKey | null = null
 
 function getStorageKey(roomId: string): string {
@@ -118,6 +151,7 @@ let currentView: View = 'landing'
 let connection: ChatConnection | null = null
 let messages: Message[] = []
 let canSend = false
+let lastConnectionStatus: ConnectionStatus | null = null
 let status = ''
 let myPeerId = ''
 let myColor: PeerColor = 'blue'
@@ -128,9 +162,15 @@ let showTermsAgreementModal = false
 let termsAgreementPromise: Promise<boolean> | null = null
 let termsAgreementResolver: ((agreed: boolean) => void) | null = null
 
+let showRelaySettings = false
+let relaySettingsError = ''
+let pendingRelayConfirmation: string | null = null
+let relayConfirmationResolver: ((trusted: boolean) => void) | null = null
+
 let showVerificationPanel = false
 let selectedPeerForVerification: string | null = null
 let verificationSafetyNumber = ''
+let groupSafetyNumber: string | null = null
 let qrCodeDataUrl = ''
 let isScanning = false
 
@@ -166,6 +206,14 @@ function render(): void {
     app.insertAdjacentHTML('beforeend', renderTermsAgreementModal())
     bindTermsAgreementModal()
   }
+
+  if (pendingRelayConfirmation && currentView === 'landing') {
+    app.insertAdjacentHTML('beforeend', renderRelayConfirmationModal(pendingRelayConfirmation))
+    bindRelayConfirmationModal()
+  } else if (showRelaySettings && currentView === 'landing') {
+    app.insertAdjacentHTML('beforeend', renderRelaySettingsModal())
+    bindRelaySettingsModal()
+  }
 }
 
 function renderLanding(app: HTMLDivElement): void {
@@ -188,6 +236,7 @@ function renderLanding(app: HTMLDivElement): void {
         <div class="footer-row">
           <a id="source-toggle" class="source-toggle">source code</a>
           <a href="?terms" class="terms-link">terms</a>
+          <a id="relay-settings-link" class="source-toggle">relay</a>
         </div>
         <div class="source-links">
           <a href="https://github.com/longestneckedgiraffe/parrhesia-frontend">frontend</a>
@@ -209,6 +258,11 @@ function renderLanding(app: HTMLDivElement): void {
   document.getElementById('source-toggle')?.addEventListener('click', () => {
     document.querySelector('.source-links')?.classList.toggle('visible')
   })
+  document.getElementById('relay-settings-link')?.addEventListener('click', () => {
+    showRelaySettings = true
+    relaySettingsError = ''
+    render()
+  })
   document.getElementById('theme-toggle')?.addEventListener('click', () => {
     toggleTheme()
     render()
@@ -312,6 +366,110 @@ function resolveTermsAgreement(agreed: boolean): void {
   resolve?.(agreed)
 }
 
+function renderRelaySettingsModal(): string {
+  const preferred = getPreferredRelay()
+  const isDefault = preferred === getDefaultRelay()
+
+  return `
+    <div class="modal-overlay" id="relay-settings-overlay">
+      <div class="modal-panel verification-panel" id="relay-settings-panel" role="dialog" aria-modal="true" aria-describedby="relay-settings-description" tabindex="-1">
+        <div class="verification-header">
+          <button type="button" class="close-link" id="close-relay-settings">Close</button>
+        </div>
+        <div class="verification-info" id="relay-settings-description">New rooms are created on this relay. The relay cannot read messages, but it carries all of your encrypted traffic, so only use one you trust.</div>
+        <input type="text" class="password-input" id="relay-input" value="${preferred}" spellcheck="false" autocomplete="off">
+        ${relaySettingsError ? `<div class="verification-info">${relaySettingsError}</div>` : ''}
+        <div class="verification-actions">
+          <button type="button" class="action-link" id="save-relay">Use this relay</button>
+          ${isDefault ? '' : '<button type="button" class="action-link" id="reset-relay">Use default</button>'}
+        </div>
+      </div>
+    </div>
+  `
+}
+
+function closeRelaySettings(): void {
+  showRelaySettings = false
+  relaySettingsError = ''
+  render()
+}
+
+function bindRelaySettingsModal(): void {
+  const panel = document.getElementById('relay-settings-panel') as HTMLDivElement | null
+  panel?.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') closeRelaySettings()
+  })
+  document.getElementById('close-relay-settings')?.addEventListener('click', closeRelaySettings)
+  document.getElementById('relay-settings-overlay')?.addEventListener('click', (event) => {
+    if ((event.target as HTMLElement).id === 'relay-settings-overlay') closeRelaySettings()
+  })
+  document.getElementById('reset-relay')?.addEventListener('click', () => {
+    setPreferredRelay(null)
+    closeRelaySettings()
+  })
+  document.getElementById('save-relay')?.addEventListener('click', () => {
+    const input = document.getElementById('relay-input') as HTMLInputElement
+    const relay = normalizeRelayUrl(input.value)
+    if (!relay) {
+      relaySettingsError = 'Enter an https:// relay address'
+      render()
+      return
+    }
+    allowRelay(relay)
+    setPreferredRelay(relay)
+    closeRelaySettings()
+  })
+}
+
+function renderRelayConfirmationModal(relay: string): string {
+  return `
+    <div class="modal-overlay" id="relay-confirmation-overlay">
+      <div class="modal-panel verification-panel" id="relay-confirmation-panel" role="dialog" aria-modal="true" aria-describedby="relay-confirmation-description" tabindex="-1">
+        <div class="verification-header">
+          <button type="button" class="close-link" id="decline-relay">Not now</button>
+        </div>
+        <div class="verification-info" id="relay-confirmation-description">This invite uses the relay <b>${relayLabel(relay)}</b> instead of ${relayLabel(getDefaultRelay())}. It will carry your encrypted traffic and see when you are online. Only continue if you trust whoever runs it.</div>
+        <div class="verification-actions">
+          <button type="button" class="action-link" id="trust-relay">Trust this relay</button>
+        </div>
+      </div>
+    </div>
+  `
+}
+
+function bindRelayConfirmationModal(): void {
+  const panel = document.getElementById('relay-confirmation-panel') as HTMLDivElement | null
+  panel?.focus()
+  panel?.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') resolveRelayConfirmation(false)
+  })
+  document.getElementById('trust-relay')?.addEventListener('click', () => resolveRelayConfirmation(true))
+  document.getElementById('decline-relay')?.addEventListener('click', () => resolveRelayConfirmation(false))
+  document.getElementById('relay-confirmation-overlay')?.addEventListener('click', (event) => {
+    if ((event.target as HTMLElement).id === 'relay-confirmation-overlay') resolveRelayConfirmation(false)
+  })
+}
+
+function requestRelayConfirmation(relay: string): Promise<boolean> {
+  if (isRelayAllowed(relay)) return Promise.resolve(true)
+  pendingRelayConfirmation = relay
+  const promise = new Promise<boolean>(resolve => {
+    relayConfirmationResolver = resolve
+  })
+  render()
+  return promise
+}
+
+function resolveRelayConfirmation(trusted: boolean): void {
+  if (trusted && pendingRelayConfirmation) allowRelay(pendingRelayConfirmation)
+
+  pendingRelayConfirmation = null
+  const resolve = relayConfirmationResolver
+  relayConfirmationResolver = null
+  render()
+  resolve?.(trusted)
+}
+
 function renderPeersList(): string {
   if (!connection) return ''
 
@@ -373,6 +531,32 @@ function renderVerificationPanel(): string {
 }
 
 
+function renderGroupSafetyPanel(): string {
+  if (groupSafetyNumber === null) return ''
+
+  return `
+    <div class="modal-overlay" id="group-safety-overlay">
+      <div class="modal-panel verification-panel">
+        <div class="verification-header">
+          <span id="close-group-safety" class="close-link">Close</span>
+        </div>
+        <div class="verification-info">Read this number aloud together. Everyone sees the same number only if you all share the same members and keys. It changes whenever the key rotates.</div>
+        <div class="safety-number">${groupSafetyNumber || 'Waiting for the group key...'}</div>
+      </div>
+    </div>
+  `
+}
+
+async function openGroupSafetyPanel(): Promise<void> {
+  groupSafetyNumber = await connection?.getGroupSafetyNumber() ?? ''
+  render()
+}
+
+function closeGroupSafetyPanel(): void {
+  groupSafetyNumber = null
+  render()
+}
+
 function renderTypingIndicator(): string {
   if (typingPeers.size === 0) return ''
   return Array.from(typingPeers.entries()).map(([peerId, p]) => {
@@ -385,6 +569,55 @@ function renderTypingIndicator(): string {
   }).join('')
 }
 
+const DELIVERY_LABELS: Record<DeliveryState, string> = {
+  pending: 'sending',
+  sent: 'sent',
+  delivered: 'delivered',
+  failed: 'failed'
+}
+
+function handleDeliveryState({ messageId, state }: ChatEvents['delivery']): void {
+  const message = messages.find(m => m.messageId === messageId)
+  if (!message) {
+    unattachedDeliveryStates.set(messageId, state)
+    return
+  }
+  message.delivery = state
+  void saveMessages()
+  render()
+}
+
+function handleConnectionStatus(status: ConnectionStatus): void {
+  if (status.state === lastConnectionStatus?.state && status.quality === lastConnectionStatus.quality) return
+  lastConnectionStatus = status
+  if (currentView === 'chat') render()
+}
+
+function handleReadReceipt({ peerId, color, messageIds }: ChatEvents['read']): void {
+  let changed = false
+  for (const message of messages) {
+    if (!message.isMine || !message.messageId || !messageIds.includes(message.messageId)) continue
+    const readBy = message.readBy ?? []
+    if (readBy.some(r => r.peerId === peerId)) continue
+    message.readBy = [...readBy, { peerId, color }]
+    changed = true
+  }
+  if (!changed) return
+  void saveMessages()
+  render()
+}
+
+function sendReadReceipts(): void {
+  if (currentView !== 'chat' || !connection || document.visibilityState !== 'visible') return
+  const unread = messages.filter(m => !m.isMine && m.messageId && !m.readSent)
+  if (unread.length === 0) return
+  unread.forEach(m => { m.readSent = true })
+  void saveMessages()
+  if (getReadReceiptsEnabled()) {
+    void connection.markRead(unread.map(m => m.messageId!))
+  }
+}
+
 function renderChat(app: HTMLDivElement): void {
   const peersList = renderPeersList()
   const verificationPanel = renderVerificationPanel()
@@ -404,12 +637,18 @@ function renderChat(app: HTMLDivElement): void {
       const isVerified = m.isMine || (m.verified ?? false)
       const colorClass = isVerified ? `color-${m.color}` : 'color-unverified'
       const peerName = m.isMine ? myColor : (isVerified ? m.color : 'unverified')
-      return `<div class="message ${colorClass}"><span class="peer">${peerName}</span><span class="text">${m.text}</span></div>`
+      const deliveryLabel = m.readBy?.length ? `read by ${m.readBy.map(r => r.color).join(', ')}` : m.delivery ? DELIVERY_LABELS[m.delivery] : ''
+      const delivery = m.isMine && deliveryLabel ? `<span class="delivery delivery-${m.readBy?.length ? 'read' : m.delivery}">${deliveryLabel}</span>` : ''
+      return `<div class="message ${colorClass}"><span class="peer">${peerName}</span><span class="text">${m.text}</span>${delivery}</div>`
     })
     .join('')
 
   const peerCount = connection?.getPeerCount() || 0
   const statusText = peerCount === 0 ? 'Waiting for peers.' : ''
+  const connectionStatus = connection?.getConnectionStatus()
+  const connectionText = connectionStatus?.state === 'reconnecting' ? 'Reconnecting...' : connectionStatus?.state === 'disconnected' ? 'Disconnected' : ''
+  const showQuality = connectionStatus?.state === 'connected' && connectionStatus.quality !== 'unknown'
+  const qualityTitle = connectionStatus?.latencyMs != null ? `${connectionStatus.latencyMs} ms round trip` : 'No reply from the relay'
 
   app.innerHTML = `
     <div class="chat">
@@ -417,6 +656,13 @@ function renderChat(app: HTMLDivElement): void {
         <div class="chat-header-left">
           ${peersList || `<span class="status-text">${statusText}</span>`}
         </div>
+        <div class="chat-header-right">
+          ${connectionText ? `<span class="status-text connection-state">${connectionText}</span>` : ''}
+          ${showQuality ? `<span class="status-text connection-quality quality-${connectionStatus.quality}" title="${qualityTitle}">${connectionStatus.quality}</span>` : ''}
+          ${peerCount > 0 ? '<a id="group-safety-toggle" class="status-text" title="Compare one number with everyone in the room">verify group</a>' : ''}
+          <a id="receipts-toggle" class="status-text receipts-toggle" title="Let others see when you have read their messages">receipts ${getReadReceiptsEnabled() ? 'on' : 'off'}</a>
+          ${currentRelay ? `<span class="status-text relay-label" title="${currentRelay}">via ${relayLabel(currentRelay)}</span>` : ''}
+        </div>
       </div>
       <div class="messages" id="messages">${messagesHtml}</div>
       ${renderTypingIndicator()}
@@ -429,18 +675,29 @@ function renderChat(app: HTMLDivElement): void {
       <a id="theme-toggle">${theme}</a>
     </div>
     ${verificationPanel}
+    ${renderGroupSafetyPanel()}
   `
   document.getElementById('send-message')?.addEventListener('click', handleSendMessage)
   document.getElementById('message-input')?.addEventListener('keypress', (e) => {
     if ((e as KeyboardEvent).key === 'Enter') handleSendMessage()
   })
   document.getElementById('message-input')?.addEventListener('input', handleInputForTyping)
+  document.getElementById('group-safety-toggle')?.addEventListener('click', openGroupSafetyPanel)
+  document.getElementById('close-group-safety')?.addEventListener('click', closeGroupSafetyPanel)
+  document.getElementById('group-safety-overlay')?.addEventListener('click', (e) => {
+    if ((e.target as HTMLElement).id === 'group-safety-overlay') closeGroupSafetyPanel()
+  })
+  document.getElementById('receipts-toggle')?.addEventListener('click', () => {
+    setReadReceiptsEnabled(!getReadReceiptsEnabled())
+    render()
+  })
   document.getElementById('theme-toggle')?.addEventListener('click', () => {
     toggleTheme()
     render()
   })
   const messagesDiv = document.getElementById('messages')
   if (messagesDiv) messagesDiv.scrollTop = messagesDiv.scrollHeight
+  sendReadReceipts()
 
   document.querySelectorAll('.peer-item').forEach(el => {
     el.addEventListener('click', async (e) => {
@@ -564,11 +821,51 @@ function handleMarkVerified(): void {
   }
 }
 
-function handleKeyChange(_peerId: string, color: PeerColor): void {
-  addSystemMessage(`${color} was blocked due to key change`)
+const NOTICE_TEXT: Record<NoticeCode, string> = {
+  connection_failed: 'Connection failed',
+  disconnected: 'Disconnected from room',
+  reconnecting: 'Reconnecting',
+  reconnected: 'Reconnected',
+  room_expired: 'This room has expired',
+  room_full: 'This room is full',
+  relay_incompatible: 'This relay runs an incompatible protocol version',
+  waiting_for_peers: 'Waiting for others to join',
+  waiting_for_key: 'Waiting for encryption key',
+  ready: 'Ready to chat',
+  key_receive_failed: 'Failed to receive encryption key',
+  group_version_unsupported: 'Failed to join: the group uses an unsupported protocol version',
+  messages_undecryptable: 'Some messages could not be decrypted',
+  message_key_evicted: 'A late message arrived after its key was discarded and could not be decrypted'
+}
+
+const REJECTION_TEXT: Record<RejectionReason, string> = {
+  protocol: 'incompatible protocol version',
+  cipher_suite: 'no common cipher suite',
+  no_pq_key: 'no post-quantum key support',
+  invalid_signature: 'invalid signature'
+}
+
+function handleSecurityEvent(event: SecurityEvent): void {
+  switch (event.kind) {
+    case 'key_changed':
+      addSystemMessage(`${event.color} was blocked due to key change`)
+      break
+    case 'peer_rejected':
+      addSystemMessage(`A peer was rejected: ${REJECTION_TEXT[event.reason]}`)
+      break
+    case 'malformed_frame':
+      addSystemMessage('Ignored a malformed frame from the relay')
+      break
+    case 'forged_message':
+      addSystemMessage(`Dropped a message claiming to be from ${event.color} with an invalid signature`)
+      break
+    case 'forged_group_update':
+      addSystemMessage(`Ignored a group key ${event.update} with an invalid signature`)
+      break
+  }
 }
 
-function handleTyping(peerId: string, color: PeerColor): void {
+function handleTyping({ peerId, color }: ChatEvents['typing']): void {
   const existing = typingPeers.get(peerId)
   if (existing) clearTimeout(existing.timeout)
 
@@ -591,9 +888,11 @@ function handleInputForTyping(): void {
 
 async function handleCreateRoom(): Promise<void> {
   if (!await requestTermsAgreement()) return
+  const relay = getPreferredRelay()
   try {
-    const roomId = await createRoom()
-    await joinRoom(roomId)
+    const roomId = await createRoom(relay)
+    setRoomRelay(roomId, relay)
+    await joinRoom(roomId, relay)
   } catch {
     status = 'Unable to create room'
     render()
@@ -609,7 +908,8 @@ async function handleJoinRoom(): Promise<void> {
     render()
     return
   }
-  const exists = await checkRoom(roomId)
+  const relay = resolveRoomRelay(roomId)
+  const exists = await checkRoom(roomId, relay)
   if (!exists) {
     status = 'Room does not exist'
     render()
@@ -622,10 +922,10 @@ async function handleJoinRoom(): Promise<void> {
     return
   }
 
-  await joinRoom(roomId)
+  await joinRoom(roomId, relay)
 }
 
-async function joinRoom(roomId: string): Promise<void> {
+async function joinRoom(roomId: string, relay: string): Promise<void> {
   if (isRoomOccupied(roomId)) {
     status = 'Already connected to this room in another tab'
     currentView = 'landing'
@@ -637,50 +937,62 @@ async function joinRoom(roomId: string): Promise<void> {
 
   canSend = false
 
-  const newConnection = new ChatConnection(
-    roomId,
-    async (peerId, color, text) => {
-      const publicKey = connection?.getPeerPublicKey(peerId)
-      const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
-      const verified = stored?.status === 'verified'
-      messages.push({ peerId, color, text, isMine: false, verified })
-      await saveMessages()
-      render()
-    },
-    (peerId, color, publicKey) => {
-      canSend = connection?.canSend() || false
-      myColor = connection?.getMyColor() || myColor
-      const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
-      const verified = stored?.status === 'verified'
-      addNotification(color, 'has joined', verified)
-    },
-    (peerId, color, publicKey) => {
-      canSend = connection?.canSend() || false
-      myColor = connection?.getMyColor() || myColor
-      const existing = typingPeers.get(peerId)
-      if (existing) {
-        clearTimeout(existing.timeout)
-        typingPeers.delete(peerId)
-      }
-      const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
-      const verified = stored?.status === 'verified'
-      addNotification(color, 'has left', verified)
-    },
-    (newStatus) => {
-      canSend = connection?.canSend() || false
-      if (newStatus === 'Disconnected from room' || newStatus === 'This room has expired') {
-        onRoomLeft(roomId)
-      }
-      addSystemMessage(newStatus)
-    },
-    handleKeyChange,
-    handleTyping
-  )
+  const newConnection = new ChatConnection(roomId, { transport: createWebSocketTransport(relay) })
+  newConnection.on('message', async ({ peerId, color, text, messageId }) => {
+    const publicKey = connection?.getPeerPublicKey(peerId)
+    const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
+    const verified = stored?.status === 'verified'
+    messages.push({ peerId, color, text, isMine: false, verified, messageId })
+    await saveMessages()
+    render()
+  })
+  newConnection.on('peer_joined', ({ peerId, color, publicKey }) => {
+    canSend = connection?.canSend() || false
+    myColor = connection?.getMyColor() || myColor
+    const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
+    const verified = stored?.status === 'verified'
+    addNotification(color, 'has joined', verified)
+  })
+  newConnection.on('peer_left', ({ peerId, color, publicKey }) => {
+    canSend = connection?.canSend() || false
+    myColor = connection?.getMyColor() || myColor
+    const existing = typingPeers.get(peerId)
+    if (existing) {
+      clearTimeout(existing.timeout)
+      typingPeers.delete(peerId)
+    }
+    const stored = publicKey ? getStoredPeerKey(roomId, peerId, publicKey) : null
+    const verified = stored?.status === 'verified'
+    addNotification(color, 'has left', verified)
+  })
+  newConnection.on('notice', ({ code, count }) => {
+    canSend = connection?.canSend() || false
+    if (code === 'disconnected' || code === 'room_expired') {
+      onRoomLeft(roomId)
+    }
+    if (code === 'messages_undecryptable' && count !== undefined) {
+      addSystemMessage(count === 1 ? '1 message could not be decrypted' : `${count} messages could not be decrypted`)
+    } else {
+      addSystemMessage(NOTICE_TEXT[code])
+    }
+  })
+  newConnection.on('epoch', ({ reason }) => {
+    canSend = connection?.canSend() || false
+    if (reason === 'rotated') addSystemMessage('Encryption key rotated')
+    if (groupSafetyNumber !== null) void openGroupSafetyPanel()
+  })
+  newConnection.on('security', handleSecurityEvent)
+  newConnection.on('typing', handleTyping)
+  newConnection.on('delivery', handleDeliveryState)
+  newConnection.on('read', handleReadReceipt)
+  newConnection.on('state', handleConnectionStatus)
 
   await newConnection.connect()
 
   connection = newConnection
   currentRoomId = roomId
+  currentRelay = relay
+  setRoomRelay(roomId, relay)
   onRoomJoined(roomId)
   messageEncryptionKey = await newConnection.getMessageStorageKey()
   messages = await loadMessages(roomId)
@@ -691,6 +1003,11 @@ async function joinRoom(roomId: string): Promise<void> {
 
   const url = new URL(window.location.href)
   url.searchParams.set('room', roomId)
+  if (relay === getDefaultRelay()) {
+    url.searchParams.delete('relay')
+  } else {
+    url.searchParams.set('relay', relay)
+  }
   window.history.pushState({}, '', url.toString())
 }
 
@@ -700,23 +1017,32 @@ async function handleSendMessage(): Promise<void> {
   if (!text || !canSend) return
 
   lastTypingSent = 0
-  messages.push({ peerId: myPeerId, color: myColor, text, isMine: true })
-  await saveMessages()
+  const message: Message = { peerId: myPeerId, color: myColor, text, isMine: true, delivery: 'pending' }
+  messages.push(message)
   input.value = ''
+
+  if (connection) {
+    try {
+      message.messageId = await connection.sendMessage(text)
+      message.delivery = unattachedDeliveryStates.get(message.messageId) ?? message.delivery
+      unattachedDeliveryStates.delete(message.messageId)
+    } catch {
+      message.delivery = 'failed'
+    }
+  }
+  await saveMessages()
   render()
 
   const newInput = document.getElementById('message-input') as HTMLInputElement
   newInput?.focus()
-
-  if (connection) {
-    await connection.sendMessage(text)
-  }
 }
 
 async function init(): Promise<void> {
   initTheme()
   initTabSync()
   clearLegacyStorage()
+  window.addEventListener('online', () => connection?.reconnectNow())
+  document.addEventListener('visibilitychange', sendReadReceipts)
   const url = new URL(window.location.href)
 
   if (url.searchParams.has('terms')) {
@@ -729,15 +1055,33 @@ async function init(): Promise<void> {
 
   if (roomId) {
     landingRoomId = roomId
-    const exists = await checkRoom(roomId)
+    let relay = resolveRoomRelay(roomId)
+    const relayParam = url.searchParams.get('relay')
+    if (relayParam) {
+      const invited = normalizeRelayUrl(relayParam)
+      if (!invited) {
+        status = 'The invite link names an invalid relay'
+        render()
+        return
+      }
+      if (!await requestRelayConfirmation(invited)) {
+        status = 'Room not joined: relay not trusted'
+        render()
+        return
+      }
+      setRoomRelay(roomId, invited)
+      relay = invited
+    }
+    const exists = await checkRoom(roomId, relay)
     if (exists) {
       if (isRoomOccupied(roomId)) {
         status = 'Already connected to this room in another tab'
       } else {
-        await joinRoom(roomId)
+        await joinRoom(roomId, relay)
         return
       }
     } else {
+      await deleteGroupState(roomId)
       status = 'Room does not exist or has expired'
     }
   }
@@ -0,0 +1,282 @@
+import { base64ToUint8Array, uint8ArrayToBase64 } from '../crypto/crypto'
+
+export type WireData = string | Uint8Array
+export type Encoding = 'json' | 'binary'
+
+export const SUPPORTED_ENCODINGS: Encoding[] = ['json', 'binary']
+
+const MAGIC = 0x50
+const FORMAT_VERSION = 1
+const MAX_DEPTH = 16
+const MAX_ITEMS = 4096
+
+const TAG_NULL = 0
+const TAG_FALSE = 1
+const TAG_TRUE = 2
+const TAG_UINT = 3
+const TAG_FLOAT = 4
+const TAG_STRING = 5
+const TAG_BYTES = 6
+const TAG_ARRAY = 7
+const TAG_MAP = 8
+
+const LITERAL_KEY = 0xff
+
+// Indexes are part of the wire format: append new keys, never reorder
+const KEY_DICTIONARY = [
+  'type', 'peer_id', 'target_peer_id', 'public_key', 'pq_public_key', 'sig',
+  'protocol_versions', 'cipher_suites', 'is_creator', 'creator_id', 'resume_token',
+  'tree_welcome', 'tree_commit', 'protocol_version', 'cipher_suite', 'payload',
+  'epoch', 'counter', 'message_id', 'message_ids', 'nonce', 'encodings', 'encoding',
+  'committerLeafPos', 'leafPublicKey', 'path', 'nodeIndex', 'newPublicKey', 'recipients',
+  'targetNodeIndex', 'mlKemCiphertext', 'encryptedSecret', 'treePublicKeys', 'numLeaves',
+  'myLeafPos', 'pathSecrets', 'treeHash', 'signature', 'leafSigningKeys', 'signerLeafPos', 'tree_hash',
+  'ec_public_key', 'transcriptHash', 'rekey_messages', 'rekey_max_age', 'rekey_on_membership', 'rekey_on_resume',
+  'unmergedLeaves'
+]
+const KEY_INDEX = new Map(KEY_DICTIONARY.map((key, i) => [key, i]))
+
+const BASE64_KEYS = new Set([
+  'public_key', 'pq_public_key', 'sig', 'payload', 'leafPublicKey', 'newPublicKey',
+  'mlKemCiphertext', 'encryptedSecret', 'treePublicKeys', 'treeHash', 'signature', 'leafSigningKeys',
+  'tree_hash', 'ec_public_key', 'transcriptHash'
+])
+const EMBEDDED_KEYS = new Set(['tree_welcome', 'tree_commit'])
+
+class Writer {
+  private buffer = new Uint8Array(1024)
+  private length = 0
+
+  private reserve(n: number): void {
+    if (this.length + n <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + n) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+  }
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) | 0x80)
+      value = Math.floor(value / 0x80)
+    }
+    this.byte(value)
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length)
+    this.buffer.set(value, this.length)
+    this.length += value.length
+  }
+
+  float(value: number): void {
+    const bytes = new Uint8Array(8)
+    new DataView(bytes.buffer).setFloat64(0, value)
+    this.bytes(bytes)
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+class Reader {
+  private data: Uint8Array
+  private offset = 0
+
+  constructor(data: Uint8Array) {
+    this.data = data
+  }
+
+  byte(): number {
+    if (this.offset >= this.data.length) throw new Error('Truncated binary frame')
+    return this.data[this.offset++]
+  }
+
+  varint(): number {
+    let value = 0
+    let scale = 1
+    for (let i = 0; i < 8; i++) {
+      const b = this.byte()
+      value += (b & 0x7f) * scale
+      if ((b & 0x80) === 0) return value
+      scale *= 0x80
+    }
+    throw new Error('Varint too long')
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.offset + n > this.data.length) throw new Error('Truncated binary frame')
+    const value = this.data.subarray(this.offset, this.offset + n)
+    this.offset += n
+    return value
+  }
+
+  float(): number {
+    const bytes = this.bytes(8)
+    return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0)
+  }
+
+  done(): boolean {
+    return this.offset === this.data.length
+  }
+}
+
+function tryBase64(value: string): Uint8Array | null {
+  try {
+    const bytes = base64ToUint8Array(value)
+    return uint8ArrayToBase64(bytes) === value ? bytes : null
+  } catch {
+    return null
+  }
+}
+
+function tryEmbedded(value: string): unknown {
+  try {
+    const parsed = JSON.parse(value)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : value
+  } catch {
+    return value
+  }
+}
+
+function writeString(writer: Writer, value: string): void {
+  const bytes = new TextEncoder().encode(value)
+  writer.varint(bytes.length)
+  writer.bytes(bytes)
+}
+
+function writeValue(writer: Writer, value: unknown, key: string | null, depth: number): void {
+  if (depth > MAX_DEPTH) throw new Error('Frame nested too deeply')
+  if (value === null || value === undefined) {
+    writer.byte(TAG_NULL)
+  } else if (typeof value === 'boolean') {
+    writer.byte(value ? TAG_TRUE : TAG_FALSE)
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value) && value >= 0) {
+      writer.byte(TAG_UINT)
+      writer.varint(value)
+    } else {
+      writer.byte(TAG_FLOAT)
+      writer.float(value)
+    }
+  } else if (typeof value === 'string') {
+    const raw = key !== null && BASE64_KEYS.has(key) ? tryBase64(value) : null
+    const embedded = key !== null && EMBEDDED_KEYS.has(key) ? tryEmbedded(value) : value
+    if (raw) {
+      writer.byte(TAG_BYTES)
+      writer.varint(raw.length)
+      writer.bytes(raw)
+    } else if (embedded !== value) {
+      writeValue(writer, embedded, null, depth + 1)
+    } else {
+      writer.byte(TAG_STRING)
+      writeString(writer, value)
+    }
+  } else if (Array.isArray(value)) {
+    writer.byte(TAG_ARRAY)
+    writer.varint(value.length)
+    for (const item of value) writeValue(writer, item, key, depth + 1)
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    writer.byte(TAG_MAP)
+    writer.varint(entries.length)
+    for (const [k, v] of entries) {
+      const index = KEY_INDEX.get(k)
+      if (index === undefined) {
+        writer.byte(LITERAL_KEY)
+        writeString(writer, k)
+      } else {
+        writer.byte(index)
+      }
+      writeValue(writer, v, k, depth + 1)
+    }
+  } else {
+    throw new Error('Unsupported value in frame')
+  }
+}
+
+function readString(reader: Reader): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(reader.bytes(reader.varint()))
+}
+
+function readCount(reader: Reader): number {
+  const count = reader.varint()
+  if (count > MAX_ITEMS) throw new Error('Too many items in binary frame')
+  return count
+}
+
+function readValue(reader: Reader, depth: number): unknown {
+  if (depth > MAX_DEPTH) throw new Error('Frame nested too deeply')
+  const tag = reader.byte()
+  switch (tag) {
+    case TAG_NULL:
+      return null
+    case TAG_FALSE:
+      return false
+    case TAG_TRUE:
+      return true
+    case TAG_UINT:
+      return reader.varint()
+    case TAG_FLOAT:
+      return reader.float()
+    case TAG_STRING:
+      return readString(reader)
+    case TAG_BYTES:
+      return uint8ArrayToBase64(reader.bytes(reader.varint()))
+    case TAG_ARRAY: {
+      const count = readCount(reader)
+      const items: unknown[] = []
+      for (let i = 0; i < count; i++) items.push(readValue(reader, depth + 1))
+      return items
+    }
+    case TAG_MAP: {
+      const count = readCount(reader)
+      const fields: Record<string, unknown> = Object.create(null)
+      for (let i = 0; i < count; i++) {
+        const code = reader.byte()
+        const key = code === LITERAL_KEY ? readString(reader) : KEY_DICTIONARY[code]
+        if (key === undefined) throw new Error('Unknown key in binary frame')
+        fields[key] = readValue(reader, depth + 1)
+      }
+      return { ...fields }
+    }
+    default:
+      throw new Error('Unknown tag in binary frame')
+  }
+}
+
+export function encodeBinary(frame: object): Uint8Array {
+  const writer = new Writer()
+  writer.byte(MAGIC)
+  writer.byte(FORMAT_VERSION)
+  writeValue(writer, frame, null, 0)
+  return writer.finish()
+}
+
+export function decodeBinary(data: Uint8Array): unknown {
+  const reader = new Reader(data)
+  if (reader.byte() !== MAGIC || reader.byte() !== FORMAT_VERSION) throw new Error('Unsupported binary frame')
+  const value = readValue(reader, 0)
+  if (!reader.done()) throw new Error('Trailing bytes in binary frame')
+  return value
+}
+
+export function encodeFrame(frame: object, encoding: Encoding): WireData {
+  if (encoding === 'binary') return encodeBinary(frame)
+  const fields: Record<string, unknown> = { ...frame }
+  for (const key of EMBEDDED_KEYS) {
+    if (typeof fields[key] === 'object' && fields[key] !== null) fields[key] = JSON.stringify(fields[key])
+  }
+  return JSON.stringify(fields)
+}
+
+export function decodeWire(data: WireData): unknown {
+  return typeof data === 'string' ? JSON.parse(data) : decodeBinary(data)
+}
@@ -1,11 +1,120 @@
-const API_BASE = 'https://api.parrhesia.chat'
+import { getKeyValueStore } from '../storage/storage'
 
-export const config = {
-  apiBase: API_BASE,
-  wsBase: API_BASE.replace(/^http/, 'ws'),
-  endpoints: {
-    createRoom: `${API_BASE}/api/rooms`,
-    checkRoom: (id: string) => `${API_BASE}/api/rooms/${id}`,
-    websocket: (roomId: string) => `${API_BASE.replace(/^http/, 'ws')}/ws/${roomId}`
+const BUILTIN_RELAY = 'https://api.parrhesia.chat'
+const PREFERRED_RELAY_STORAGE_KEY = 'parrhesia-relay'
+const ALLOWLIST_STORAGE_KEY = 'parrhesia-relay-allowlist'
+const ROOM_RELAYS_STORAGE_KEY = 'parrhesia-room-relays'
+
+export interface RelayEndpoints {
+  apiBase: string
+  wsBase: string
+  createRoom: string
+  checkRoom: (id: string) => string
+  websocket: (roomId: string, resumeToken?: string) => string
+}
+
+export function normalizeRelayUrl(input: string): string | null {
+  let url: URL
+  try {
+    url = new URL(input.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol === 'wss:') url.protocol = 'https:'
+  if (url.protocol === 'ws:') url.protocol = 'http:'
+  const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1' || url.hostname === '[::1]'
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal)) return null
+  if (url.username || url.password || url.search || url.hash) return null
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`
+}
+
+export function getDefaultRelay(): string {
+  const fromEnv = import.meta.env.VITE_RELAY_BASE
+  return (typeof fromEnv === 'string' && normalizeRelayUrl(fromEnv)) || BUILTIN_RELAY
+}
+
+export function relayEndpoints(apiBase: string): RelayEndpoints {
+  const wsBase = apiBase.replace(/^http/, 'ws')
+  return {
+    apiBase,
+    wsBase,
+    createRoom: `${apiBase}/api/rooms`,
+    checkRoom: (id: string) => `${apiBase}/api/rooms/${id}`,
+    websocket: (roomId: string, resumeToken?: string) => {
+      const url = `${wsBase}/ws/${roomId}`
+      return resumeToken ? `${url}?resume=${encodeURIComponent(resumeToken)}` : url
+    }
+  }
+}
+
+export function relayLabel(apiBase: string): string {
+  try {
+    const url = new URL(apiBase)
+    return url.pathname === '/' ? url.host : `${url.host}${url.pathname}`
+  } catch {
+    return apiBase
+  }
+}
+
+function loadJson<T>(key: string, fallback: T): T {
+  const stored = getKeyValueStore().getItem(key)
+  if (!stored) return fallback
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return fallback
+  }
+}
+
+export function getAllowedRelays(): string[] {
+  const stored = loadJson<unknown>(ALLOWLIST_STORAGE_KEY, [])
+  const relays = Array.isArray(stored) ? stored.filter((r): r is string => typeof r === 'string') : []
+  return [getDefaultRelay(), ...relays.filter(r => r !== getDefaultRelay())]
+}
+
+export function isRelayAllowed(apiBase: string): boolean {
+  return getAllowedRelays().includes(apiBase)
+}
+
+export function allowRelay(apiBase: string): void {
+  if (isRelayAllowed(apiBase)) return
+  const relays = getAllowedRelays().slice(1)
+  relays.push(apiBase)
+  getKeyValueStore().setItem(ALLOWLIST_STORAGE_KEY, JSON.stringify(relays))
+}
+
+export function getPreferredRelay(): string {
+  const stored = getKeyValueStore().getItem(PREFERRED_RELAY_STORAGE_KEY)
+  if (stored && isRelayAllowed(stored)) return stored
+  return getDefaultRelay()
+}
+
+export function setPreferredRelay(apiBase: string | null): void {
+  if (!apiBase || apiBase === getDefaultRelay()) {
+    getKeyValueStore().removeItem(PREFERRED_RELAY_STORAGE_KEY)
+    return
+  }
+  if (!isRelayAllowed(apiBase)) throw new Error('Relay is not on the allowlist')
+  getKeyValueStore().setItem(PREFERRED_RELAY_STORAGE_KEY, apiBase)
+}
+
+export function getRoomRelay(roomId: string): string | null {
+  const rooms = loadJson<Record<string, string>>(ROOM_RELAYS_STORAGE_KEY, {})
+  const relay = rooms[roomId]
+  return relay && isRelayAllowed(relay) ? relay : null
+}
+
+export function setRoomRelay(roomId: string, apiBase: string): void {
+  if (!isRelayAllowed(apiBase)) throw new Error('Relay is not on the allowlist')
+  const rooms = loadJson<Record<string, string>>(ROOM_RELAYS_STORAGE_KEY, {})
+  if (apiBase === getDefaultRelay()) {
+    delete rooms[roomId]
+  } else {
+    rooms[roomId] = apiBase
   }
+  getKeyValueStore().setItem(ROOM_RELAYS_STORAGE_KEY, JSON.stringify(rooms))
+}
+
+export function resolveRoomRelay(roomId: string): string {
+  return getRoomRelay(roomId) ?? getPreferredRelay()
 }
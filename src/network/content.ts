@@ -0,0 +1,55 @@
+import { CONTENT_TYPE_DELIVERED, CONTENT_TYPE_READ, CONTENT_TYPE_TEXT, CONTENT_TYPE_TYPING } from '../crypto/crypto'
+
+export type Content =
+  | { kind: 'text'; text: string; id?: string }
+  | { kind: 'read' | 'delivered'; messageIds: string[] }
+  | { kind: 'typing' }
+
+export const MAX_RECEIPT_IDS = 100
+const MAX_MESSAGE_ID_LENGTH = 128
+
+const CONTENT_TYPE_BY_KIND: Record<Content['kind'], number> = {
+  text: CONTENT_TYPE_TEXT,
+  delivered: CONTENT_TYPE_DELIVERED,
+  read: CONTENT_TYPE_READ,
+  typing: CONTENT_TYPE_TYPING
+}
+
+export function contentTypeOf(content: Content): number {
+  return CONTENT_TYPE_BY_KIND[content.kind]
+}
+
+export function encodeContent(content: Content): string {
+  return JSON.stringify(content)
+}
+
+function isMessageIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.length <= MAX_RECEIPT_IDS &&
+    value.every(id => typeof id === 'string' && id.length > 0 && id.length <= MAX_MESSAGE_ID_LENGTH)
+}
+
+export function decodeContent(plaintext: string): Content | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(plaintext)
+  } catch {
+    return { kind: 'text', text: plaintext }
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) || !('kind' in parsed)) {
+    return { kind: 'text', text: plaintext }
+  }
+  const fields = parsed as Record<string, unknown>
+  switch (fields.kind) {
+    case 'text':
+      if (typeof fields.text !== 'string') return null
+      if (fields.id === undefined) return { kind: 'text', text: fields.text }
+      return isMessageIdList([fields.id]) ? { kind: 'text', text: fields.text, id: fields.id as string } : null
+    case 'read':
+    case 'delivered':
+      return isMessageIdList(fields.messageIds) ? { kind: fields.kind, messageIds: fields.messageIds } : null
+    case 'typing':
+      return { kind: 'typing' }
+    default:
+      return null
+  }
+}
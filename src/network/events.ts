@@ -0,0 +1,84 @@
+import type { PeerColor } from '../crypto/crypto'
+import type { DeliveryState } from './outbox'
+import type { ConnectionQuality } from './heartbeat'
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected'
+
+export interface ConnectionStatus {
+  state: ConnectionState
+  latencyMs: number | null
+  quality: ConnectionQuality
+}
+
+export type NoticeCode =
+  | 'connection_failed'
+  | 'disconnected'
+  | 'reconnecting'
+  | 'reconnected'
+  | 'room_expired'
+  | 'room_full'
+  | 'relay_incompatible'
+  | 'waiting_for_peers'
+  | 'waiting_for_key'
+  | 'ready'
+  | 'key_receive_failed'
+  | 'group_version_unsupported'
+  | 'messages_undecryptable'
+  | 'message_key_evicted'
+
+export type RejectionReason = 'protocol' | 'cipher_suite' | 'no_pq_key' | 'invalid_signature'
+
+export type SecurityEvent =
+  | { kind: 'key_changed'; peerId: string; color: PeerColor }
+  | { kind: 'peer_rejected'; peerId: string; reason: RejectionReason }
+  | { kind: 'malformed_frame'; reason: string }
+  | { kind: 'forged_message'; peerId: string; color: PeerColor }
+  | { kind: 'forged_group_update'; update: 'commit' | 'welcome'; peerId?: string }
+
+export interface PeerEvent {
+  peerId: string
+  color: PeerColor
+  publicKey?: string
+}
+
+export interface ChatEvents {
+  state: ConnectionStatus
+  notice: { code: NoticeCode; count?: number }
+  message: { peerId: string; color: PeerColor; text: string; messageId?: string }
+  peer_joined: PeerEvent
+  peer_left: PeerEvent
+  typing: { peerId: string; color: PeerColor }
+  delivery: { messageId: string; state: DeliveryState }
+  read: { peerId: string; color: PeerColor; messageIds: string[] }
+  security: SecurityEvent
+  epoch: { epoch: number; reason: 'created' | 'joined' | 'rotated' }
+}
+
+export type Listener<T> = (event: T) => void
+
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {}
+
+  on<K extends keyof Events>(name: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[name] ?? new Set()
+    set.add(listener)
+    this.listeners[name] = set
+    return () => this.off(name, listener)
+  }
+
+  off<K extends keyof Events>(name: K, listener: Listener<Events[K]>): void {
+    this.listeners[name]?.delete(listener)
+  }
+
+  protected emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const set = this.listeners[name]
+    if (!set) return
+    for (const listener of Array.from(set)) {
+      try {
+        listener(event)
+      } catch (e) {
+        console.error(`Listener for ${String(name)} failed:`, e)
+      }
+    }
+  }
+}
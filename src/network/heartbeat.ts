@@ -0,0 +1,91 @@
+export type ConnectionQuality = 'good' | 'fair' | 'poor' | 'unknown'
+
+export const HEARTBEAT_INTERVAL_MS = 15000
+export const HEARTBEAT_TIMEOUT_MS = 10000
+const FAIR_LATENCY_MS = 300
+const POOR_LATENCY_MS = 1000
+
+export class Heartbeat {
+  private sendPing: (nonce: number) => void
+  private onDead: () => void
+  private onChange: () => void
+  private intervalMs: number
+  private timeoutMs: number
+  private intervalTimer: ReturnType<typeof setInterval> | null = null
+  private timeoutTimer: ReturnType<typeof setTimeout> | null = null
+  private nonce = 0
+  private sentAt = 0
+  private latency: number | null = null
+  private missed = false
+
+  constructor(
+    sendPing: (nonce: number) => void,
+    onDead: () => void,
+    onChange: () => void,
+    intervalMs: number = HEARTBEAT_INTERVAL_MS,
+    timeoutMs: number = HEARTBEAT_TIMEOUT_MS
+  ) {
+    this.sendPing = sendPing
+    this.onDead = onDead
+    this.onChange = onChange
+    this.intervalMs = intervalMs
+    this.timeoutMs = timeoutMs
+  }
+
+  start(): void {
+    this.stop()
+    this.latency = null
+    this.missed = false
+    this.sentAt = 0
+    this.ping()
+    this.intervalTimer = setInterval(() => this.ping(), this.intervalMs)
+  }
+
+  stop(): void {
+    if (this.intervalTimer) clearInterval(this.intervalTimer)
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer)
+    this.intervalTimer = null
+    this.timeoutTimer = null
+  }
+
+  handlePong(nonce: number): void {
+    if (nonce !== this.nonce || this.sentAt === 0) return
+    const rtt = Date.now() - this.sentAt
+    this.sentAt = 0
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer)
+    this.timeoutTimer = null
+    this.latency = this.latency === null ? rtt : Math.round(this.latency * 0.8 + rtt * 0.2)
+    this.missed = false
+    this.onChange()
+  }
+
+  getLatency(): number | null {
+    return this.latency
+  }
+
+  getQuality(): ConnectionQuality {
+    if (this.missed) return 'poor'
+    if (this.latency === null) return 'unknown'
+    if (this.latency >= POOR_LATENCY_MS) return 'poor'
+    if (this.latency >= FAIR_LATENCY_MS) return 'fair'
+    return 'good'
+  }
+
+  private ping(): void {
+    if (this.sentAt !== 0 && !this.missed) {
+      this.missed = true
+      this.onChange()
+    }
+    this.nonce++
+    this.sentAt = Date.now()
+    this.sendPing(this.nonce)
+    if (this.timeoutTimer) return
+    this.timeoutTimer = setTimeout(() => {
+      this.timeoutTimer = null
+      this.stop()
+      this.missed = true
+      this.onChange()
+      this.onDead()
+    }, this.timeoutMs)
+  }
+}
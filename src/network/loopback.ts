@@ -0,0 +1,261 @@
+import type { Transport, TransportFactory, TransportHandlers } from './transport'
+import { decodeWire, encodeFrame, SUPPORTED_ENCODINGS, type Encoding, type WireData } from './codec'
+
+const DEFAULT_ROOM_CAPACITY = 16
+
+interface RelayFrame {
+  type: string
+  target_peer_id?: string
+  [key: string]: unknown
+}
+
+interface Session {
+  peerId: string
+  resumeToken: string
+  transport: LoopbackTransport | null
+  keys: Record<string, unknown> | null
+  leaveTimer: ReturnType<typeof setTimeout> | null
+}
+
+interface Room {
+  creatorId: string | null
+  sessions: Map<string, Session>
+}
+
+export interface LocalRelayOptions {
+  capacity?: number
+  resumeGraceMs?: number
+  protocolVersions?: number[]
+  encodings?: Encoding[]
+}
+
+export class LoopbackTransport implements Transport {
+  private open = false
+  private closed = false
+  private handlers: TransportHandlers
+  private onClientFrame: (data: WireData) => void
+  private onClientClose: () => void
+  encoding: Encoding = 'json'
+
+  constructor(handlers: TransportHandlers, onClientFrame: (data: WireData) => void, onClientClose: () => void) {
+    this.handlers = handlers
+    this.onClientFrame = onClientFrame
+    this.onClientClose = onClientClose
+  }
+
+  send(data: WireData): void {
+    if (!this.open) return
+    queueMicrotask(() => {
+      if (this.open) this.onClientFrame(data)
+    })
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.open = false
+    this.closed = true
+    this.onClientClose()
+    queueMicrotask(() => this.handlers.onClose())
+  }
+
+  isOpen(): boolean {
+    return this.open
+  }
+
+  accept(): void {
+    this.open = true
+    queueMicrotask(() => this.handlers.onOpen())
+  }
+
+  deliver(frame: RelayFrame): void {
+    if (!this.open) return
+    const data = encodeFrame(frame, this.encoding)
+    queueMicrotask(() => {
+      if (this.open) this.handlers.onMessage(data)
+    })
+  }
+
+  drop(): void {
+    if (this.closed) return
+    this.open = false
+    this.closed = true
+    queueMicrotask(() => this.handlers.onClose())
+  }
+}
+
+export class LocalRelay {
+  private rooms: Map<string, Room> = new Map()
+  private capacity: number
+  private resumeGraceMs: number
+  private protocolVersions: number[]
+  private encodings: Encoding[]
+
+  constructor(options: LocalRelayOptions = {}) {
+    this.capacity = options.capacity ?? DEFAULT_ROOM_CAPACITY
+    this.resumeGraceMs = options.resumeGraceMs ?? 0
+    this.protocolVersions = options.protocolVersions ?? [1]
+    this.encodings = options.encodings ?? SUPPORTED_ENCODINGS
+  }
+
+  createRoom(): string {
+    const roomId = randomId()
+    this.rooms.set(roomId, { creatorId: null, sessions: new Map() })
+    return roomId
+  }
+
+  roomExists(roomId: string): boolean {
+    return this.rooms.has(roomId)
+  }
+
+  expireRoom(roomId: string): void {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+    this.rooms.delete(roomId)
+    for (const session of room.sessions.values()) {
+      if (session.leaveTimer) clearTimeout(session.leaveTimer)
+      if (!session.transport) continue
+      session.transport.deliver({ type: 'room_expired' })
+      const transport = session.transport
+      session.transport = null
+      queueMicrotask(() => transport.drop())
+    }
+  }
+
+  dropPeer(roomId: string, peerId: string): void {
+    const session = this.rooms.get(roomId)?.sessions.get(peerId)
+    if (!session?.transport) return
+    const transport = session.transport
+    this.detach(roomId, session)
+    transport.drop()
+  }
+
+  getPeerIds(roomId: string): string[] {
+    const room = this.rooms.get(roomId)
+    if (!room) return []
+    return Array.from(room.sessions.values()).filter(s => s.transport).map(s => s.peerId)
+  }
+
+  getEncoding(roomId: string, peerId: string): Encoding | null {
+    return this.rooms.get(roomId)?.sessions.get(peerId)?.transport?.encoding ?? null
+  }
+
+  readonly transport: TransportFactory = (roomId, resumeToken, handlers) => {
+    let session: Session | null = null
+    const transport = new LoopbackTransport(
+      handlers,
+      (data) => {
+        if (session) this.handleFrame(roomId, session, data)
+      },
+      () => {
+        if (session) this.detach(roomId, session)
+      }
+    )
+    transport.accept()
+
+    const room = this.rooms.get(roomId)
+    if (!room) {
+      transport.deliver({ type: 'room_expired' })
+      queueMicrotask(() => transport.drop())
+      return transport
+    }
+
+    const resumable = resumeToken
+      ? Array.from(room.sessions.values()).find(s => s.resumeToken === resumeToken && !s.transport)
+      : undefined
+    if (resumable) {
+      if (resumable.leaveTimer) clearTimeout(resumable.leaveTimer)
+      resumable.leaveTimer = null
+      resumable.transport = transport
+      session = resumable
+    } else {
+      const connected = Array.from(room.sessions.values()).filter(s => s.transport).length
+      if (connected >= this.capacity) {
+        transport.deliver({ type: 'room_full' })
+        queueMicrotask(() => transport.drop())
+        return transport
+      }
+      session = { peerId: randomId(), resumeToken: randomId(), transport, keys: null, leaveTimer: null }
+      room.sessions.set(session.peerId, session)
+    }
+
+    const isCreator = room.creatorId === null || !room.sessions.has(room.creatorId) || room.sessions.size === 1
+    if (isCreator) room.creatorId = session.peerId
+    transport.deliver({
+      type: 'welcome',
+      peer_id: session.peerId,
+      is_creator: isCreator,
+      creator_id: room.creatorId,
+      resume_token: session.resumeToken,
+      protocol_versions: this.protocolVersions,
+      encodings: this.encodings
+    })
+    return transport
+  }
+
+  private handleFrame(roomId: string, session: Session, data: WireData): void {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+    let frame: RelayFrame
+    try {
+      frame = decodeWire(data) as RelayFrame
+    } catch {
+      return
+    }
+
+    switch (frame.type) {
+      case 'encoding':
+        if (session.transport && this.encodings.includes(frame.encoding as Encoding)) {
+          session.transport.encoding = frame.encoding as Encoding
+        }
+        break
+
+      case 'key_announce': {
+        const { type: _type, ...keys } = frame
+        session.keys = keys
+        for (const other of room.sessions.values()) {
+          if (other === session || !other.transport || !other.keys) continue
+          other.transport.deliver({ type: 'peer_joined', peer_id: session.peerId, ...session.keys })
+          session.transport?.deliver({ type: 'peer_key', peer_id: other.peerId, ...other.keys })
+        }
+        break
+      }
+
+      case 'ping':
+        session.transport?.deliver({ type: 'pong', nonce: frame.nonce })
+        break
+
+      default: {
+        const { target_peer_id: target, ...rest } = frame
+        const forwarded: RelayFrame = { ...rest, peer_id: session.peerId }
+        for (const other of room.sessions.values()) {
+          if (other === session || !other.transport) continue
+          if (target && other.peerId !== target) continue
+          other.transport.deliver(forwarded)
+        }
+      }
+    }
+  }
+
+  private detach(roomId: string, session: Session): void {
+    session.transport = null
+    const leave = () => {
+      session.leaveTimer = null
+      const room = this.rooms.get(roomId)
+      if (!room) return
+      room.sessions.delete(session.peerId)
+      if (!session.keys) return
+      for (const other of room.sessions.values()) {
+        other.transport?.deliver({ type: 'peer_left', peer_id: session.peerId })
+      }
+    }
+    if (this.resumeGraceMs > 0) {
+      session.leaveTimer = setTimeout(leave, this.resumeGraceMs)
+    } else {
+      leave()
+    }
+  }
+}
+
+function randomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('')
+}
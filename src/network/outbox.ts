@@ -0,0 +1,111 @@
+export type DeliveryState = 'pending' | 'sent' | 'delivered' | 'failed'
+
+export interface OutboxEntry {
+  id: string
+  text: string
+  state: DeliveryState
+  createdAt: number
+  attempts: number
+  awaiting: string[]
+  deliveredTo: string[]
+}
+
+export const MAX_SEND_ATTEMPTS = 5
+export const MAX_OUTBOX_AGE_MS = 10 * 60 * 1000
+const MAX_OUTBOX_SIZE = 200
+
+export class Outbox {
+  private entries: Map<string, OutboxEntry> = new Map()
+  private onChange: (entry: OutboxEntry) => void
+
+  constructor(onChange: (entry: OutboxEntry) => void) {
+    this.onChange = onChange
+  }
+
+  load(entries: OutboxEntry[]): void {
+    for (const entry of entries) {
+      if (entry.state !== 'pending' && entry.state !== 'sent') continue
+      this.entries.set(entry.id, { ...entry, state: 'pending', awaiting: [] })
+    }
+  }
+
+  add(text: string): OutboxEntry {
+    if (this.entries.size >= MAX_OUTBOX_SIZE) throw new Error('Outbox is full')
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      text,
+      state: 'pending',
+      createdAt: Date.now(),
+      attempts: 0,
+      awaiting: [],
+      deliveredTo: []
+    }
+    this.entries.set(entry.id, entry)
+    this.onChange(entry)
+    return entry
+  }
+
+  get(id: string): OutboxEntry | undefined {
+    return this.entries.get(id)
+  }
+
+  list(): OutboxEntry[] {
+    return Array.from(this.entries.values())
+  }
+
+  pending(now: number = Date.now()): OutboxEntry[] {
+    const due: OutboxEntry[] = []
+    for (const entry of this.entries.values()) {
+      if (entry.state !== 'pending') continue
+      if (entry.attempts >= MAX_SEND_ATTEMPTS || now - entry.createdAt > MAX_OUTBOX_AGE_MS) {
+        this.settle(entry, 'failed')
+        continue
+      }
+      due.push(entry)
+    }
+    return due
+  }
+
+  markSent(id: string, recipients: string[]): void {
+    const entry = this.entries.get(id)
+    if (!entry || entry.state !== 'pending') return
+    entry.attempts++
+    entry.awaiting = recipients.filter(peerId => !entry.deliveredTo.includes(peerId))
+    entry.state = 'sent'
+    this.onChange(entry)
+  }
+
+  markDelivered(id: string, peerId: string): void {
+    const entry = this.entries.get(id)
+    if (!entry || !entry.awaiting.includes(peerId)) return
+    entry.awaiting = entry.awaiting.filter(p => p !== peerId)
+    entry.deliveredTo.push(peerId)
+    if (entry.awaiting.length === 0) this.settle(entry, 'delivered')
+  }
+
+  removePeer(peerId: string): void {
+    for (const entry of this.list()) {
+      if (!entry.awaiting.includes(peerId)) continue
+      entry.awaiting = entry.awaiting.filter(p => p !== peerId)
+      if (entry.awaiting.length === 0) this.settle(entry, entry.deliveredTo.length > 0 ? 'delivered' : 'failed')
+    }
+  }
+
+  requeueUnconfirmed(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.state !== 'sent') continue
+      entry.state = 'pending'
+      this.onChange(entry)
+    }
+  }
+
+  clear(): void {
+    for (const entry of this.list()) this.settle(entry, 'failed')
+  }
+
+  private settle(entry: OutboxEntry, state: 'delivered' | 'failed'): void {
+    this.entries.delete(entry.id)
+    entry.state = state
+    this.onChange(entry)
+  }
+}
@@ -0,0 +1,63 @@
+import type { MessageFrame, TreeCommitFrame } from './protocol'
+
+export type PendingFrame = MessageFrame | TreeCommitFrame
+
+interface PendingEntry {
+  frame: PendingFrame
+  epoch: number
+  receivedAt: number
+}
+
+export const MAX_PENDING_FRAMES = 256
+export const PENDING_TIMEOUT_MS = 15000
+
+function frameEpoch(frame: PendingFrame): number {
+  return frame.type === 'tree_commit' ? frame.tree_commit.epoch : frame.epoch
+}
+
+export class PendingBuffer {
+  private entries: PendingEntry[] = []
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  add(frame: PendingFrame, now: number = Date.now()): PendingFrame | null {
+    this.entries.push({ frame, epoch: frameEpoch(frame), receivedAt: now })
+    if (this.entries.length <= MAX_PENDING_FRAMES) return null
+    return this.entries.shift()!.frame
+  }
+
+  takeCommit(epoch: number): TreeCommitFrame | null {
+    this.entries = this.entries.filter(entry => entry.frame.type !== 'tree_commit' || entry.epoch >= epoch)
+    const index = this.entries.findIndex(entry => entry.frame.type === 'tree_commit' && entry.epoch === epoch)
+    if (index < 0) return null
+    return this.entries.splice(index, 1)[0].frame as TreeCommitFrame
+  }
+
+  takeMessages(maxEpoch: number): MessageFrame[] {
+    const ready: MessageFrame[] = []
+    this.entries = this.entries.filter(entry => {
+      if (entry.frame.type !== 'message' || entry.epoch > maxEpoch) return true
+      ready.push(entry.frame)
+      return false
+    })
+    return ready
+  }
+
+  expire(now: number = Date.now()): PendingFrame[] {
+    const expired = this.entries.filter(entry => now - entry.receivedAt >= PENDING_TIMEOUT_MS)
+    this.entries = this.entries.filter(entry => now - entry.receivedAt < PENDING_TIMEOUT_MS)
+    return expired.map(entry => entry.frame)
+  }
+
+  nextExpiry(): number | null {
+    return this.entries.length > 0 ? this.entries[0].receivedAt + PENDING_TIMEOUT_MS : null
+  }
+
+  clear(): PendingFrame[] {
+    const frames = this.entries.map(entry => entry.frame)
+    this.entries = []
+    return frames
+  }
+}
@@ -0,0 +1,416 @@
+import { directPath, type TreeKemCommit, type TreeKemPathEntry, type TreeKemRecipient, type TreeKemWelcome } from '../crypto/treekem'
+import { decodeWire, type Encoding, type WireData } from './codec'
+import { MAX_EPOCH_AGE_MS, MAX_MESSAGES_PER_EPOCH, MIN_EPOCH_AGE_MS, type RekeyPolicyFields } from './rekey'
+
+const ML_DSA_PUBLIC_KEY_BYTES = 1952
+const ML_DSA_SIGNATURE_BYTES = 3309
+const ML_KEM_PUBLIC_KEY_BYTES = 1184
+const X25519_PUBLIC_KEY_BYTES = 32
+const KEM_PUBLIC_KEY_BYTES = [ML_KEM_PUBLIC_KEY_BYTES, ML_KEM_PUBLIC_KEY_BYTES + X25519_PUBLIC_KEY_BYTES]
+const KEM_CIPHERTEXT_BYTES = [1088, 1088 + X25519_PUBLIC_KEY_BYTES]
+const TREE_HASH_BYTES = 32
+const MIN_SEALED_SECRET_BYTES = 28
+const MAX_SEALED_SECRET_BYTES = 256
+const MAX_PAYLOAD_BYTES = 64 * 1024
+const MAX_ID_LENGTH = 128
+const MAX_COUNTER = 2 ** 32
+const MAX_EPOCH = 2 ** 32
+
+export const MAX_LEAVES = 256
+const MAX_TREE_WIDTH = 2 * MAX_LEAVES - 1
+const MAX_PATH_LENGTH = 9
+const MAX_VERSIONS = 16
+const MAX_VERSION = 256
+
+export interface WelcomeFrame {
+  type: 'welcome'
+  peer_id: string
+  is_creator: boolean
+  creator_id: string
+  resume_token?: string
+  protocol_versions?: number[]
+  encodings?: Encoding[]
+}
+
+export interface PeerKeyFrame {
+  type: 'peer_key' | 'peer_joined'
+  peer_id: string
+  public_key: string
+  pq_public_key?: string
+  ec_public_key?: string
+  sig?: string
+  protocol_versions?: number[]
+  cipher_suites?: number[]
+  rekey_policy?: RekeyPolicyFields
+}
+
+export interface PeerLeftFrame {
+  type: 'peer_left'
+  peer_id: string
+}
+
+export interface TreeWelcomeFrame {
+  type: 'tree_welcome'
+  peer_id?: string
+  tree_welcome: TreeKemWelcome
+  protocol_version?: number
+  cipher_suite?: number
+}
+
+export interface TreeCommitFrame {
+  type: 'tree_commit'
+  peer_id?: string
+  tree_commit: TreeKemCommit
+}
+
+export interface MessageFrame {
+  type: 'message'
+  peer_id: string
+  payload: string
+  epoch: number
+  counter: number
+}
+
+export interface ResyncRequestFrame {
+  type: 'resync_request'
+  peer_id: string
+  epoch: number
+  tree_hash?: string
+}
+
+export interface ResyncOkFrame {
+  type: 'resync_ok'
+  peer_id?: string
+  epoch: number
+}
+
+export interface HeartbeatFrame {
+  type: 'ping' | 'pong'
+  peer_id?: string
+  nonce: number
+}
+
+export interface RoomClosedFrame {
+  type: 'room_full' | 'room_expired'
+}
+
+export type InboundFrame =
+  | WelcomeFrame
+  | PeerKeyFrame
+  | PeerLeftFrame
+  | TreeWelcomeFrame
+  | TreeCommitFrame
+  | MessageFrame
+  | ResyncRequestFrame
+  | ResyncOkFrame
+  | HeartbeatFrame
+  | RoomClosedFrame
+
+export type ParseResult =
+  | { ok: true; frame: InboundFrame }
+  | { ok: false; error: string }
+
+type Fields = Record<string, unknown>
+
+function fail(message: string): never {
+  throw new Error(message)
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function expectString(fields: Fields, key: string, maxLength: number = MAX_ID_LENGTH): string {
+  const value = fields[key]
+  if (typeof value !== 'string' || value.length === 0 || value.length > maxLength) fail(`Invalid ${key}`)
+  return value
+}
+
+function optionalString(fields: Fields, key: string, maxLength: number = MAX_ID_LENGTH): string | undefined {
+  if (fields[key] === undefined || fields[key] === null) return undefined
+  return expectString(fields, key, maxLength)
+}
+
+function expectInt(fields: Fields, key: string, min: number, max: number): number {
+  const value = fields[key]
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value >= max) fail(`Invalid ${key}`)
+  return value
+}
+
+function base64Length(value: string): number | null {
+  if (value.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) return null
+  const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0
+  return (value.length / 4) * 3 - padding
+}
+
+function checkBase64(value: unknown, name: string, minBytes: number, maxBytes: number): string {
+  if (typeof value !== 'string') fail(`Invalid ${name}`)
+  const length = base64Length(value)
+  if (length === null || length < minBytes || length > maxBytes) fail(`Invalid ${name}`)
+  return value
+}
+
+function checkKem(value: unknown, name: string, sizes: number[]): string {
+  const checked = checkBase64(value, name, Math.min(...sizes), Math.max(...sizes))
+  if (!sizes.includes(base64Length(checked)!)) fail(`Invalid ${name}`)
+  return checked
+}
+
+function expectBase64(fields: Fields, key: string, minBytes: number, maxBytes: number = minBytes): string {
+  return checkBase64(fields[key], key, minBytes, maxBytes)
+}
+
+function optionalBase64(fields: Fields, key: string, minBytes: number, maxBytes: number = minBytes): string | undefined {
+  if (fields[key] === undefined || fields[key] === null) return undefined
+  return expectBase64(fields, key, minBytes, maxBytes)
+}
+
+function expectArray(fields: Fields, key: string, maxLength: number): unknown[] {
+  const value = fields[key]
+  if (!Array.isArray(value) || value.length > maxLength) fail(`Invalid ${key}`)
+  return value
+}
+
+function optionalVersion(fields: Fields, key: string): number | undefined {
+  if (fields[key] === undefined || fields[key] === null) return undefined
+  return expectInt(fields, key, 1, MAX_VERSION)
+}
+
+function optionalVersionList(fields: Fields, key: string): number[] | undefined {
+  if (fields[key] === undefined || fields[key] === null) return undefined
+  const list = expectArray(fields, key, MAX_VERSIONS)
+  if (list.length === 0) fail(`Invalid ${key}`)
+  return list.map(version => {
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version >= MAX_VERSION) fail(`Invalid ${key}`)
+    return version
+  })
+}
+
+function expectBoolean(fields: Fields, key: string): boolean {
+  const value = fields[key]
+  if (typeof value !== 'boolean') fail(`Invalid ${key}`)
+  return value
+}
+
+function optionalRekeyPolicy(fields: Fields): RekeyPolicyFields | undefined {
+  if (fields.rekey_messages === undefined || fields.rekey_messages === null) return undefined
+  return {
+    rekey_messages: expectInt(fields, 'rekey_messages', 1, MAX_MESSAGES_PER_EPOCH + 1),
+    rekey_max_age: expectInt(fields, 'rekey_max_age', MIN_EPOCH_AGE_MS / 1000, MAX_EPOCH_AGE_MS / 1000 + 1),
+    rekey_on_membership: expectBoolean(fields, 'rekey_on_membership'),
+    rekey_on_resume: expectBoolean(fields, 'rekey_on_resume')
+  }
+}
+
+function parseEmbedded(value: unknown, key: string, native: boolean): Fields {
+  if (native && isObject(value)) return value
+  if (typeof value !== 'string') fail(`Invalid ${key}`)
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    fail(`Invalid ${key}`)
+  }
+  if (!isObject(parsed)) fail(`Invalid ${key}`)
+  return parsed
+}
+
+function validateRecipient(value: unknown): TreeKemRecipient {
+  if (!isObject(value)) fail('Invalid recipient')
+  return {
+    targetNodeIndex: expectInt(value, 'targetNodeIndex', 0, MAX_TREE_WIDTH),
+    mlKemCiphertext: checkKem(value.mlKemCiphertext, 'mlKemCiphertext', KEM_CIPHERTEXT_BYTES),
+    encryptedSecret: expectBase64(value, 'encryptedSecret', MIN_SEALED_SECRET_BYTES, MAX_SEALED_SECRET_BYTES)
+  }
+}
+
+function validatePathEntry(value: unknown, allowEmptyKey: boolean): TreeKemPathEntry {
+  if (!isObject(value)) fail('Invalid path entry')
+  const newPublicKey = allowEmptyKey && value.newPublicKey === ''
+    ? ''
+    : checkKem(value.newPublicKey, 'newPublicKey', KEM_PUBLIC_KEY_BYTES)
+  return {
+    nodeIndex: expectInt(value, 'nodeIndex', 0, MAX_TREE_WIDTH),
+    newPublicKey,
+    recipients: expectArray(value, 'recipients', MAX_LEAVES).map(validateRecipient)
+  }
+}
+
+export function validateCommit(value: unknown): TreeKemCommit {
+  if (!isObject(value)) fail('Invalid commit')
+  return {
+    committerLeafPos: expectInt(value, 'committerLeafPos', 0, MAX_LEAVES),
+    leafPublicKey: checkKem(value.leafPublicKey, 'leafPublicKey', KEM_PUBLIC_KEY_BYTES),
+    path: expectArray(value, 'path', MAX_PATH_LENGTH).map(entry => validatePathEntry(entry, false)),
+    epoch: expectInt(value, 'epoch', 0, MAX_EPOCH),
+    treeHash: expectBase64(value, 'treeHash', TREE_HASH_BYTES),
+    signature: expectBase64(value, 'signature', ML_DSA_SIGNATURE_BYTES)
+  }
+}
+
+export function validateWelcome(value: unknown): TreeKemWelcome {
+  if (!isObject(value)) fail('Invalid welcome')
+  const numLeaves = expectInt(value, 'numLeaves', 1, MAX_LEAVES + 1)
+  const width = 2 * numLeaves - 1
+  const myLeafPos = expectInt(value, 'myLeafPos', 0, numLeaves)
+  const treePublicKeys = expectArray(value, 'treePublicKeys', width).map(key =>
+    key === null ? null : checkKem(key, 'treePublicKeys', KEM_PUBLIC_KEY_BYTES)
+  )
+  const pathSecrets = expectArray(value, 'pathSecrets', 1).map(entry => validatePathEntry(entry, true))
+  const leafSigningKeys = expectArray(value, 'leafSigningKeys', numLeaves).map(key =>
+    key === null ? null : checkBase64(key, 'leafSigningKeys', ML_DSA_PUBLIC_KEY_BYTES, ML_DSA_PUBLIC_KEY_BYTES)
+  )
+  const unmergedLeaves = expectArray(value, 'unmergedLeaves', width).map(list => {
+    if (!Array.isArray(list) || list.length > numLeaves) fail('Invalid unmergedLeaves')
+    return list.map(leafPos => {
+      if (typeof leafPos !== 'number' || !Number.isInteger(leafPos) || leafPos < 0 || leafPos >= numLeaves) fail('Invalid unmergedLeaves')
+      return leafPos
+    })
+  })
+
+  const dp = directPath(myLeafPos, numLeaves)
+  for (const entry of pathSecrets) {
+    if (!dp.includes(entry.nodeIndex)) fail('Welcome path secret is not on the direct path')
+    if (entry.recipients.length !== 1 || entry.recipients[0].targetNodeIndex !== 2 * myLeafPos) {
+      fail('Welcome path secret is not addressed to the joiner')
+    }
+  }
+
+  return {
+    treePublicKeys,
+    numLeaves,
+    myLeafPos,
+    pathSecrets,
+    epoch: expectInt(value, 'epoch', 0, MAX_EPOCH),
+    leafSigningKeys,
+    unmergedLeaves,
+    transcriptHash: expectBase64(value, 'transcriptHash', TREE_HASH_BYTES),
+    signerLeafPos: expectInt(value, 'signerLeafPos', 0, numLeaves),
+    signature: expectBase64(value, 'signature', ML_DSA_SIGNATURE_BYTES)
+  }
+}
+
+export function validateCommitForTree(commit: TreeKemCommit, numLeaves: number): string | null {
+  if (commit.committerLeafPos >= numLeaves) return 'Commit from a leaf outside the tree'
+  const dp = directPath(commit.committerLeafPos, numLeaves)
+  if (commit.path.length !== dp.length) return 'Commit path does not match the tree'
+  const width = 2 * numLeaves - 1
+  for (let i = 0; i < dp.length; i++) {
+    const entry = commit.path[i]
+    if (entry.nodeIndex !== dp[i]) return 'Commit path does not match the tree'
+    for (const recipient of entry.recipients) {
+      if (recipient.targetNodeIndex >= width) return 'Commit recipient outside the tree'
+    }
+  }
+  return null
+}
+
+function optionalEncodings(fields: Fields): Encoding[] | undefined {
+  if (fields.encodings === undefined || fields.encodings === null) return undefined
+  return expectArray(fields, 'encodings', MAX_VERSIONS)
+    .filter((encoding): encoding is Encoding => encoding === 'json' || encoding === 'binary')
+}
+
+function validateFrame(fields: Fields, binary: boolean): InboundFrame {
+  switch (fields.type) {
+    case 'welcome':
+      if (fields.is_creator !== undefined && typeof fields.is_creator !== 'boolean') fail('Invalid is_creator')
+      return {
+        type: 'welcome',
+        peer_id: expectString(fields, 'peer_id'),
+        is_creator: fields.is_creator === true,
+        creator_id: optionalString(fields, 'creator_id') ?? '',
+        resume_token: optionalString(fields, 'resume_token'),
+        protocol_versions: optionalVersionList(fields, 'protocol_versions'),
+        encodings: optionalEncodings(fields)
+      }
+
+    case 'peer_key':
+    case 'peer_joined':
+      return {
+        type: fields.type,
+        peer_id: expectString(fields, 'peer_id'),
+        public_key: expectBase64(fields, 'public_key', ML_DSA_PUBLIC_KEY_BYTES),
+        pq_public_key: optionalBase64(fields, 'pq_public_key', ML_KEM_PUBLIC_KEY_BYTES),
+        ec_public_key: optionalBase64(fields, 'ec_public_key', X25519_PUBLIC_KEY_BYTES),
+        sig: optionalBase64(fields, 'sig', ML_DSA_SIGNATURE_BYTES),
+        protocol_versions: optionalVersionList(fields, 'protocol_versions'),
+        cipher_suites: optionalVersionList(fields, 'cipher_suites'),
+        rekey_policy: optionalRekeyPolicy(fields)
+      }
+
+    case 'peer_left':
+      return { type: 'peer_left', peer_id: expectString(fields, 'peer_id') }
+
+    case 'tree_welcome':
+      return {
+        type: 'tree_welcome',
+        peer_id: optionalString(fields, 'peer_id'),
+        tree_welcome: validateWelcome(parseEmbedded(fields.tree_welcome, 'tree_welcome', binary)),
+        protocol_version: optionalVersion(fields, 'protocol_version'),
+        cipher_suite: optionalVersion(fields, 'cipher_suite')
+      }
+
+    case 'tree_commit':
+      return {
+        type: 'tree_commit',
+        peer_id: optionalString(fields, 'peer_id'),
+        tree_commit: validateCommit(parseEmbedded(fields.tree_commit, 'tree_commit', binary))
+      }
+
+    case 'message':
+      return {
+        type: 'message',
+        peer_id: expectString(fields, 'peer_id'),
+        payload: expectBase64(fields, 'payload', 28, MAX_PAYLOAD_BYTES),
+        epoch: expectInt(fields, 'epoch', 0, MAX_EPOCH),
+        counter: expectInt(fields, 'counter', 0, MAX_COUNTER)
+      }
+
+    case 'ping':
+    case 'pong':
+      return {
+        type: fields.type,
+        peer_id: optionalString(fields, 'peer_id'),
+        nonce: expectInt(fields, 'nonce', 0, MAX_COUNTER)
+      }
+
+    case 'resync_request':
+      return {
+        type: 'resync_request',
+        peer_id: expectString(fields, 'peer_id'),
+        epoch: expectInt(fields, 'epoch', 0, MAX_EPOCH),
+        tree_hash: optionalBase64(fields, 'tree_hash', TREE_HASH_BYTES)
+      }
+
+    case 'resync_ok':
+      return {
+        type: 'resync_ok',
+        peer_id: optionalString(fields, 'peer_id'),
+        epoch: expectInt(fields, 'epoch', 0, MAX_EPOCH)
+      }
+
+    case 'room_full':
+    case 'room_expired':
+      return { type: fields.type }
+
+    default:
+      return fail('Unknown frame type')
+  }
+}
+
+export function parseFrame(raw: WireData): ParseResult {
+  const binary = typeof raw !== 'string'
+  let parsed: unknown
+  try {
+    parsed = decodeWire(raw)
+  } catch {
+    return { ok: false, error: binary ? 'Frame is not valid binary' : 'Frame is not valid JSON' }
+  }
+  if (!isObject(parsed)) return { ok: false, error: 'Frame is not an object' }
+  try {
+    return { ok: true, frame: validateFrame(parsed, binary) }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : 'Malformed frame' }
+  }
+}
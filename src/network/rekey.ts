@@ -0,0 +1,62 @@
+export interface RekeyPolicy {
+  messagesPerEpoch: number
+  maxEpochAgeMs: number
+  rekeyOnMembershipChange: boolean
+  rekeyOnResume: boolean
+}
+
+export const DEFAULT_REKEY_POLICY: RekeyPolicy = {
+  messagesPerEpoch: 50,
+  maxEpochAgeMs: 60 * 60 * 1000,
+  rekeyOnMembershipChange: true,
+  rekeyOnResume: false
+}
+
+export const MAX_MESSAGES_PER_EPOCH = 100000
+export const MIN_EPOCH_AGE_MS = 60 * 1000
+export const MAX_EPOCH_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+export function resolveRekeyPolicy(overrides: Partial<RekeyPolicy> = {}): RekeyPolicy {
+  const policy = { ...DEFAULT_REKEY_POLICY, ...overrides }
+  if (!Number.isInteger(policy.messagesPerEpoch) || policy.messagesPerEpoch < 1 || policy.messagesPerEpoch > MAX_MESSAGES_PER_EPOCH) {
+    throw new Error('Invalid messagesPerEpoch')
+  }
+  if (!Number.isInteger(policy.maxEpochAgeMs) || policy.maxEpochAgeMs < MIN_EPOCH_AGE_MS || policy.maxEpochAgeMs > MAX_EPOCH_AGE_MS) {
+    throw new Error('Invalid maxEpochAgeMs')
+  }
+  return policy
+}
+
+export function strictestPolicy(policies: RekeyPolicy[]): RekeyPolicy {
+  return policies.reduce((a, b) => ({
+    messagesPerEpoch: Math.min(a.messagesPerEpoch, b.messagesPerEpoch),
+    maxEpochAgeMs: Math.min(a.maxEpochAgeMs, b.maxEpochAgeMs),
+    rekeyOnMembershipChange: a.rekeyOnMembershipChange || b.rekeyOnMembershipChange,
+    rekeyOnResume: a.rekeyOnResume || b.rekeyOnResume
+  }))
+}
+
+export interface RekeyPolicyFields {
+  rekey_messages: number
+  rekey_max_age: number
+  rekey_on_membership: boolean
+  rekey_on_resume: boolean
+}
+
+export function policyToFields(policy: RekeyPolicy): RekeyPolicyFields {
+  return {
+    rekey_messages: policy.messagesPerEpoch,
+    rekey_max_age: Math.round(policy.maxEpochAgeMs / 1000),
+    rekey_on_membership: policy.rekeyOnMembershipChange,
+    rekey_on_resume: policy.rekeyOnResume
+  }
+}
+
+export function policyFromFields(fields: RekeyPolicyFields): RekeyPolicy {
+  return {
+    messagesPerEpoch: fields.rekey_messages,
+    maxEpochAgeMs: fields.rekey_max_age * 1000,
+    rekeyOnMembershipChange: fields.rekey_on_membership,
+    rekeyOnResume: fields.rekey_on_resume
+  }
+}
@@ -0,0 +1,49 @@
+import { relayEndpoints } from './config'
+import type { WireData } from './codec'
+
+export interface TransportHandlers {
+  onOpen: () => void
+  onMessage: (data: WireData) => void
+  onClose: () => void
+  onError: () => void
+}
+
+export interface Transport {
+  send(data: WireData): void
+  close(): void
+  isOpen(): boolean
+}
+
+export type TransportFactory = (roomId: string, resumeToken: string | undefined, handlers: TransportHandlers) => Transport
+
+export class WebSocketTransport implements Transport {
+  private ws: WebSocket
+
+  constructor(url: string, handlers: TransportHandlers) {
+    this.ws = new WebSocket(url)
+    this.ws.binaryType = 'arraybuffer'
+    this.ws.onopen = () => handlers.onOpen()
+    this.ws.onmessage = (event) => {
+      handlers.onMessage(typeof event.data === 'string' ? event.data : new Uint8Array(event.data))
+    }
+    this.ws.onclose = () => handlers.onClose()
+    this.ws.onerror = () => handlers.onError()
+  }
+
+  send(data: WireData): void {
+    if (this.isOpen()) this.ws.send(data)
+  }
+
+  close(): void {
+    this.ws.close()
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN
+  }
+}
+
+export function createWebSocketTransport(apiBase: string): TransportFactory {
+  const endpoints = relayEndpoints(apiBase)
+  return (roomId, resumeToken, handlers) => new WebSocketTransport(endpoints.websocket(roomId, resumeToken), handlers)
+}
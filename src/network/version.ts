@@ -0,0 +1,47 @@
+export interface Capabilities {
+  protocolVersions: number[]
+  cipherSuites: number[]
+}
+
+export interface NegotiatedVersion {
+  protocolVersion: number
+  cipherSuite: number
+}
+
+export const CIPHER_SUITE_NAMES: Record<number, string> = {
+  1: 'ML-KEM-768 + ML-DSA-65 + AES-256-GCM',
+  2: 'X25519 + ML-KEM-768 + ML-DSA-65 + AES-256-GCM'
+}
+
+export const LOCAL_CAPABILITIES: Capabilities = {
+  protocolVersions: [1],
+  cipherSuites: [1, 2]
+}
+
+export const LEGACY_CAPABILITIES: Capabilities = {
+  protocolVersions: [1],
+  cipherSuites: [1]
+}
+
+function highestCommon(lists: number[][]): number | null {
+  if (lists.length === 0) return null
+  const common = lists[0].filter(v => lists.every(list => list.includes(v)))
+  return common.length > 0 ? Math.max(...common) : null
+}
+
+export function negotiate(members: Capabilities[]): NegotiatedVersion | null {
+  const protocolVersion = highestCommon(members.map(m => m.protocolVersions))
+  const cipherSuite = highestCommon(members.map(m => m.cipherSuites))
+  if (protocolVersion === null || cipherSuite === null) return null
+  return { protocolVersion, cipherSuite }
+}
+
+export function incompatibility(local: Capabilities, remote: Capabilities): 'protocol' | 'cipher_suite' | null {
+  if (highestCommon([local.protocolVersions, remote.protocolVersions]) === null) return 'protocol'
+  if (highestCommon([local.cipherSuites, remote.cipherSuites]) === null) return 'cipher_suite'
+  return null
+}
+
+export function supports(local: Capabilities, version: NegotiatedVersion): boolean {
+  return local.protocolVersions.includes(version.protocolVersion) && local.cipherSuites.includes(version.cipherSuite)
+}
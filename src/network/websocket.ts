@@ -1,255 +1,486 @@
-import { config } from './config'
-import { GroupKeyManager, deriveColorFromPublicKey, isValidPublicKey } from '../crypto/crypto'
-import type { PeerColor, TreeKemCommit, TreeKemWelcome } from '../crypto/crypto'
-import { checkPeerKey, storePeerKey } from '../crypto/tofu'
-
-export type MessageHandler = (peerId: string, color: PeerColor, message: string) => void
-export type PeerHandler = (peerId: string, color: PeerColor, publicKey?: string) => void
-export type StatusHandler = (status: string) => void
-export type KeyChangeHandler = (peerId: string, color: PeerColor) => void
-export type TypingHandler = (peerId: string, color: PeerColor) => void
-
-interface WsMessage {
-  type: string
-  peer_id?: string
-  public_key?: string
-  pq_public_key?: string
-  payload?: string
-  pq_ciphertext?: string
-  is_creator?: boolean
-  creator_id?: string
-  message_id?: string
-  message_ids?: string[]
-  sig?: string
-  epoch?: number
-  counter?: number
-  tree_commit?: string
-  tree_welcome?: string
+import { getPreferredRelay, relayEndpoints, resolveRoomRelay } from './config'
+import { getKeyValueStore, type StorageOptions } from '../storage/storage'
+import { EpochForkError, GroupKeyManager, MessageAuthenticationError, SkippedKeyEvictedError, deriveColorFromPublicKey, decryptMessages, encryptMessages, isEncryptedData, type EpochRetention, type PaddingPolicy } from '../crypto/crypto'
+import type { PeerColor } from '../crypto/crypto'
+import type { SkippedKeyMetrics } from '../crypto/skippedKeys'
+import { checkPeerKey, generateGroupSafetyNumber, storePeerKey } from '../crypto/tofu'
+import { deleteGroupState, loadGroupState, saveGroupState } from '../crypto/groupState'
+import { CIPHER_SUITE_HYBRID } from '../crypto/kem'
+import { createWebSocketTransport, type Transport, type TransportFactory } from './transport'
+import { parseFrame, validateCommitForTree, type InboundFrame, type MessageFrame, type PeerKeyFrame, type TreeCommitFrame, type WelcomeFrame } from './protocol'
+import {
+  LEGACY_CAPABILITIES,
+  LOCAL_CAPABILITIES,
+  incompatibility,
+  negotiate,
+  supports,
+  type Capabilities,
+  type NegotiatedVersion
+} from './version'
+import { Outbox, type DeliveryState, type OutboxEntry } from './outbox'
+import { contentTypeOf, decodeContent, encodeContent, MAX_RECEIPT_IDS, type Content } from './content'
+import { Heartbeat } from './heartbeat'
+import { policyFromFields, policyToFields, resolveRekeyPolicy, strictestPolicy, type RekeyPolicy } from './rekey'
+import { PendingBuffer, type PendingFrame } from './pending'
+import { TypedEmitter, type ChatEvents, type ConnectionState, type ConnectionStatus, type RejectionReason } from './events'
+import { encodeFrame, type Encoding, type WireData } from './codec'
+
+export type { ConnectionState, ConnectionStatus } from './events'
+
+export interface ChatConnectionOptions {
+  transport?: TransportFactory
+  rekeyPolicy?: Partial<RekeyPolicy>
+  storage?: StorageOptions
 }
 
-export class ChatConnection {
-  private ws: WebSocket | null = null
+const RECONNECT_BASE_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 30000
+const MAX_RECONNECT_ATTEMPTS = 10
+const RESYNC_TIMEOUT_MS = 5000
+const MAX_SEEN_MESSAGE_IDS = 1000
+const MAX_PENDING_ACKS = 1000
+
+export function reconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(ceiling / 2 + random() * ceiling / 2)
+}
+
+export class ChatConnection extends TypedEmitter<ChatEvents> {
+  private transport: Transport | null = null
+  private transportFactory: TransportFactory
+  private inbound: Promise<void> = Promise.resolve()
   private keyManager: GroupKeyManager
   private roomId: string
+  private storage: StorageOptions
   private peerId: string = ''
-  private onMessage: MessageHandler
-  private onPeerJoined: PeerHandler
-  private onPeerLeft: PeerHandler
-  private onStatus: StatusHandler
-  private onKeyChange?: KeyChangeHandler
-  private onTyping?: TypingHandler
-  private messagesSinceRekey: number = 0
-  private rekeyInterval: number = 50
-
-  constructor(
-    roomId: string,
-    onMessage: MessageHandler,
-    onPeerJoined: PeerHandler,
-    onPeerLeft: PeerHandler,
-    onStatus: StatusHandler,
-    onKeyChange?: KeyChangeHandler,
-    onTyping?: TypingHandler
-  ) {
+  private heartbeat: Heartbeat
+  private encoding: Encoding = 'json'
+  private rekeyPolicy: RekeyPolicy
+  private peerRekeyPolicies: Map<string, RekeyPolicy> = new Map()
+  private messagesInEpoch: number = 0
+  private epochStartedAt: number = Date.now()
+  private rekeyTimer: ReturnType<typeof setTimeout> | null = null
+  private rekeying: boolean = false
+  private publicKey: string = ''
+  private state: ConnectionState = 'connecting'
+  private closedByUser: boolean = false
+  private roomClosed: boolean = false
+  private reconnectAttempts: number = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private resumeToken: string | null = null
+  private restoredSession: boolean = false
+  private stateSaves: Promise<void> = Promise.resolve()
+  private awaitingResync: boolean = false
+  private resyncReason: 'resume' | 'fork' = 'resume'
+  private welcomedAt: Map<string, number> = new Map()
+  private pending: PendingBuffer = new PendingBuffer()
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null
+  private resyncTimer: ReturnType<typeof setTimeout> | null = null
+  private outbox: Outbox
+  private storageKey: CryptoKey | null = null
+  private seenMessageIds: Set<string> = new Set()
+  private transmitting: Set<string> = new Set()
+  private pendingAcks = { delivered: new Set<string>(), read: new Set<string>() }
+  private peerCapabilities: Map<string, Capabilities> = new Map()
+
+  constructor(roomId: string, options: ChatConnectionOptions = {}) {
+    super()
     this.roomId = roomId
-    this.keyManager = new GroupKeyManager()
-    this.onMessage = onMessage
-    this.onPeerJoined = onPeerJoined
-    this.onPeerLeft = onPeerLeft
-    this.onStatus = onStatus
-    this.onKeyChange = onKeyChange
-    this.onTyping = onTyping
+    this.storage = options.storage ?? {}
+    this.keyManager = new GroupKeyManager(roomId, this.storage)
+    this.rekeyPolicy = resolveRekeyPolicy(options.rekeyPolicy)
+    this.heartbeat = new Heartbeat(
+      nonce => this.send({ type: 'ping', nonce }),
+      () => this.handleDeadConnection(),
+      () => this.emit('state', this.getConnectionStatus())
+    )
+    this.outbox = new Outbox(entry => {
+      this.emit('delivery', { messageId: entry.id, state: entry.state })
+      void this.persistOutbox()
+    })
+    this.transportFactory = options.transport ?? createWebSocketTransport(resolveRoomRelay(roomId))
   }
 
   async connect(): Promise<void> {
-    const publicKey = await this.keyManager.initialize()
-    const wsUrl = config.endpoints.websocket(this.roomId)
-    this.ws = new WebSocket(wsUrl)
+    this.publicKey = await this.keyManager.initialize()
+    this.storageKey = await this.keyManager.getMessageStorageKey()
+    const saved = await loadGroupState(this.roomId, this.storage)
+    if (saved && await this.keyManager.restoreState(saved.group)) {
+      this.peerId = saved.group.peerId
+      this.resumeToken = saved.resumeToken
+      this.restoredSession = true
+      this.scheduleRekeyTimer()
+    }
+    this.outbox.load(await this.loadOutbox())
+    this.closedByUser = false
+    this.openTransport()
+  }
+
+  private openTransport(): void {
+    this.encoding = 'json'
+    const transport: Transport = this.transportFactory(this.roomId, this.resumeToken ?? undefined, {
+      onOpen: () => {
+        if (this.transport === transport) this.heartbeat.start()
+      },
+      onMessage: (raw) => {
+        if (this.transport !== transport) return
+        this.inbound = this.inbound
+          .then(() => this.handleRawFrame(raw))
+          .catch(e => console.error('Failed to handle frame:', e))
+      },
+      onClose: () => {
+        if (this.transport !== transport) return
+        this.transport = null
+        this.handleClose()
+      },
+      onError: () => {
+        if (this.transport !== transport) return
+        if (this.state === 'connecting') this.emit('notice', { code: 'connection_failed' })
+      }
+    })
+    this.transport = transport
+  }
 
-    this.ws.onmessage = async (event) => {
-      const data: WsMessage = JSON.parse(event.data)
-      await this.handleMessage(data, publicKey)
+  private async handleRawFrame(raw: WireData): Promise<void> {
+    const result = parseFrame(raw)
+    if (!result.ok) {
+      this.reportMalformedFrame(result.error)
+      return
     }
+    await this.handleMessage(result.frame, this.publicKey)
+    this.persistGroupState()
+  }
+
+  private reportMalformedFrame(reason: string): void {
+    console.warn('Dropped malformed frame:', reason)
+    this.emit('security', { kind: 'malformed_frame', reason })
+  }
+
+  private handleDeadConnection(): void {
+    const transport = this.transport
+    if (!transport) return
+    console.warn('Heartbeat timed out, treating the connection as dead')
+    this.transport = null
+    transport.close()
+    this.handleClose()
+  }
 
-    this.ws.onclose = () => {
-      this.onStatus('Disconnected from room')
+  private handleClose(): void {
+    this.heartbeat.stop()
+    this.clearResyncTimer()
+    if (this.closedByUser || this.roomClosed || this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.setState('disconnected')
+      this.emit('notice', { code: 'disconnected' })
+      return
     }
+    this.setState('reconnecting')
+    this.outbox.requeueUnconfirmed()
+    this.emit('notice', { code: 'reconnecting' })
+    this.scheduleReconnect(reconnectDelay(this.reconnectAttempts))
+  }
+
+  private scheduleReconnect(delay: number): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.reconnectAttempts++
+      this.openTransport()
+    }, delay)
+  }
+
+  reconnectNow(): void {
+    if (this.state !== 'reconnecting' || this.transport) return
+    this.scheduleReconnect(0)
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return
+    this.state = state
+    this.emit('state', this.getConnectionStatus())
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state
+  }
 
-    this.ws.onerror = () => {
-      this.onStatus('Connection failed')
+  getConnectionStatus(): ConnectionStatus {
+    const connected = this.state === 'connected'
+    return {
+      state: this.state,
+      latencyMs: connected ? this.heartbeat.getLatency() : null,
+      quality: connected ? this.heartbeat.getQuality() : 'unknown'
     }
   }
 
-  private async handleMessage(data: WsMessage, publicKey: string): Promise<void> {
-    switch (data.type) {
-      case 'welcome':
-        this.peerId = data.peer_id || ''
-        const isCreator = data.is_creator || false
-        const creatorId = data.creator_id || ''
-        this.keyManager.setCreatorStatus(isCreator, creatorId, this.peerId)
-
-        if (isCreator) {
-          await this.keyManager.generateAndSetGroupKey()
-          this.onStatus('Waiting for others to join')
-        } else {
-          this.onStatus('Waiting for encryption key')
-        }
+  private clearResyncTimer(): void {
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer)
+      this.resyncTimer = null
+    }
+  }
 
-        const pqPublicKey = this.keyManager.getMlKemPublicKeyBase64()
-        if (!pqPublicKey) throw new Error('ML-KEM key pair not initialized')
-        const sig = this.keyManager.signMlKemPublicKey()
-        this.send({
-          type: 'key_announce',
-          public_key: publicKey,
-          pq_public_key: pqPublicKey,
-          sig: sig || undefined
-        })
-        break
+  private async requestResync(reason: 'resume' | 'fork'): Promise<void> {
+    this.clearResyncTimer()
+    this.awaitingResync = true
+    this.resyncReason = reason
+    const treeHash = await this.keyManager.getTreeHash()
+    this.send({ type: 'resync_request', epoch: this.keyManager.getEpoch(), tree_hash: treeHash ?? undefined })
+    this.resyncTimer = setTimeout(() => this.finishResync(), RESYNC_TIMEOUT_MS)
+  }
 
-      case 'peer_key':
-        if (data.peer_id && data.public_key) {
-          if (!isValidPublicKey(data.public_key)) {
-            console.error('Received invalid public key from peer', data.peer_id)
-            return
-          }
-          if (!data.pq_public_key) {
-            this.onStatus('A peer was rejected: no post-quantum key support')
-            return
-          }
-          const keyCheck = checkPeerKey(this.roomId, data.peer_id, data.public_key)
-
-          if (keyCheck.status === 'key_changed') {
-            if (this.onKeyChange) {
-              const color = await deriveColorFromPublicKey(data.public_key)
-              this.onKeyChange(data.peer_id, color)
-            }
-            return
-          }
+  private finishResync(): void {
+    this.clearResyncTimer()
+    if (!this.awaitingResync) return
+    this.awaitingResync = false
+    if (this.resyncReason === 'resume') this.emit('notice', { code: 'reconnected' })
+    this.flushOutbox()
+  }
 
-          if (keyCheck.isNewKey) {
-            storePeerKey(this.roomId, data.peer_id, data.public_key)
-          }
+  private async handleWelcome(data: WelcomeFrame, publicKey: string): Promise<void> {
+    if (data.protocol_versions && !data.protocol_versions.some(v => LOCAL_CAPABILITIES.protocolVersions.includes(v))) {
+      this.roomClosed = true
+      this.emit('notice', { code: 'relay_incompatible' })
+      this.transport?.close()
+      return
+    }
 
-          try {
-            await this.keyManager.addPeer(data.peer_id, data.public_key, data.pq_public_key, data.sig)
-          } catch (e) {
-            console.error('Peer rejected:', e)
-            this.onStatus('A peer was rejected: invalid signature')
-            return
-          }
-          const color = this.keyManager.getPeerColor(data.peer_id)
-          this.onPeerJoined(data.peer_id, color, data.public_key)
+    if (data.encodings?.includes('binary')) {
+      this.send({ type: 'encoding', encoding: 'binary' })
+      this.encoding = 'binary'
+    }
 
-          if (this.keyManager.hasTreeState() && this.keyManager.shouldInitiateRekey(data.peer_id)) {
-            await this.sendTreeCommit()
-            await this.sendTreeWelcome(data.peer_id)
-          }
+    const previousPeerId = this.peerId
+    const wasResuming = this.state === 'reconnecting' || this.restoredSession
+    this.restoredSession = false
+    this.peerId = data.peer_id
+    this.resumeToken = data.resume_token || null
+    this.reconnectAttempts = 0
+    this.setState('connected')
+
+    const resumed = wasResuming && this.peerId === previousPeerId && this.keyManager.hasTreeState()
+    if (wasResuming && !resumed) {
+      this.keyManager.resetGroup()
+      this.peerCapabilities.clear()
+      this.clearPending()
+    }
+
+    if (!resumed) {
+      this.keyManager.setCreatorStatus(data.is_creator, data.creator_id, this.peerId)
+
+      if (data.is_creator) {
+        await this.keyManager.generateAndSetGroupKey()
+        this.startEpoch()
+        this.emit('epoch', { epoch: this.keyManager.getEpoch(), reason: 'created' })
+        this.emit('notice', { code: 'waiting_for_peers' })
+      } else {
+        this.emit('notice', { code: 'waiting_for_key' })
+      }
+    }
+
+    const pqPublicKey = this.keyManager.getMlKemPublicKeyBase64()
+    if (!pqPublicKey) throw new Error('ML-KEM key pair not initialized')
+    const sig = await this.keyManager.signMlKemPublicKey()
+    this.send({
+      type: 'key_announce',
+      public_key: publicKey,
+      pq_public_key: pqPublicKey,
+      ec_public_key: this.keyManager.getEcPublicKeyBase64() || undefined,
+      sig: sig || undefined,
+      protocol_versions: LOCAL_CAPABILITIES.protocolVersions,
+      cipher_suites: LOCAL_CAPABILITIES.cipherSuites,
+      ...policyToFields(this.rekeyPolicy)
+    })
+
+    if (resumed) {
+      await this.requestResync('resume')
+    }
+  }
+
+  private handleContent(peerId: string, content: Content): void {
+    const color = this.keyManager.getPeerColor(peerId)
+    switch (content.kind) {
+      case 'text':
+        if (content.id) {
+          void this.queueAcks('delivered', [content.id])
+          if (this.seenMessageIds.has(content.id)) return
+          this.rememberMessageId(content.id)
         }
+        this.emit('message', { peerId, color, text: content.text, messageId: content.id })
         break
 
-      case 'peer_joined':
-        if (data.peer_id && data.public_key) {
-          if (!isValidPublicKey(data.public_key)) {
-            console.error('Received invalid public key from peer', data.peer_id)
-            return
-          }
-          if (!data.pq_public_key) {
-            this.onStatus('A peer was rejected: no post-quantum key support')
-            return
-          }
-          const keyCheck2 = checkPeerKey(this.roomId, data.peer_id, data.public_key)
-
-          if (keyCheck2.status === 'key_changed') {
-            if (this.onKeyChange) {
-              const color = await deriveColorFromPublicKey(data.public_key)
-              this.onKeyChange(data.peer_id, color)
-            }
-            return
-          }
+      case 'delivered':
+        for (const messageId of content.messageIds) {
+          this.outbox.markDelivered(messageId, peerId)
+        }
+        break
 
-          if (keyCheck2.isNewKey) {
-            storePeerKey(this.roomId, data.peer_id, data.public_key)
-          }
+      case 'read':
+        this.emit('read', { peerId, color, messageIds: content.messageIds })
+        break
 
-          try {
-            await this.keyManager.addPeer(data.peer_id, data.public_key, data.pq_public_key, data.sig)
-          } catch (e) {
-            console.error('Peer rejected:', e)
-            this.onStatus('A peer was rejected: invalid signature')
-            return
-          }
-          const color = this.keyManager.getPeerColor(data.peer_id)
-          this.onPeerJoined(data.peer_id, color, data.public_key)
+      case 'typing':
+        this.emit('typing', { peerId, color })
+        break
+    }
+  }
 
-          if (this.keyManager.hasTreeState() && this.keyManager.shouldInitiateRekey(data.peer_id)) {
-            await this.sendTreeCommit()
-            await this.sendTreeWelcome(data.peer_id)
-          }
-        }
+  private rejectPeer(peerId: string, reason: RejectionReason): void {
+    console.warn('Rejected peer', peerId, reason)
+    this.emit('security', { kind: 'peer_rejected', peerId, reason })
+  }
+
+  private async handlePeerKey(data: PeerKeyFrame): Promise<void> {
+    const capabilities: Capabilities = {
+      protocolVersions: data.protocol_versions ?? LEGACY_CAPABILITIES.protocolVersions,
+      cipherSuites: data.cipher_suites ?? LEGACY_CAPABILITIES.cipherSuites
+    }
+    const mismatch = incompatibility(LOCAL_CAPABILITIES, capabilities)
+    if (mismatch) {
+      this.rejectPeer(data.peer_id, mismatch)
+      return
+    }
+    if (!data.pq_public_key) {
+      this.rejectPeer(data.peer_id, 'no_pq_key')
+      return
+    }
+    const hybrid = capabilities.cipherSuites.includes(CIPHER_SUITE_HYBRID)
+    if (hybrid && !data.ec_public_key) {
+      this.rejectPeer(data.peer_id, 'cipher_suite')
+      return
+    }
+    const keyCheck = checkPeerKey(this.roomId, data.peer_id, data.public_key, this.storage)
+
+    if (keyCheck.status === 'key_changed') {
+      const color = await deriveColorFromPublicKey(data.public_key)
+      this.emit('security', { kind: 'key_changed', peerId: data.peer_id, color })
+      return
+    }
+
+    if (keyCheck.isNewKey) {
+      storePeerKey(this.roomId, data.peer_id, data.public_key, this.storage)
+    }
+
+    let added: boolean
+    try {
+      added = await this.keyManager.addPeer(data.peer_id, data.public_key, data.pq_public_key, data.sig, hybrid ? data.ec_public_key : undefined)
+    } catch (e) {
+      console.error('Peer rejected:', e)
+      this.rejectPeer(data.peer_id, 'invalid_signature')
+      return
+    }
+    if (!added) return
+    this.peerCapabilities.set(data.peer_id, capabilities)
+    if (data.rekey_policy) this.peerRekeyPolicies.set(data.peer_id, policyFromFields(data.rekey_policy))
+    const color = this.keyManager.getPeerColor(data.peer_id)
+    this.emit('peer_joined', { peerId: data.peer_id, color, publicKey: data.public_key })
+
+    // Adding a leaf always takes a commit, so the membership policy only governs departures
+    if (this.keyManager.hasTreeState() && this.keyManager.shouldInitiateRekey(data.peer_id)) {
+      await this.sendTreeCommit()
+      await this.sendTreeWelcome(data.peer_id)
+    }
+    this.scheduleRekeyTimer()
+  }
+
+  private async handleMessage(data: InboundFrame, publicKey: string): Promise<void> {
+    switch (data.type) {
+      case 'welcome':
+        await this.handleWelcome(data, publicKey)
         break
 
-      case 'peer_left':
-        if (data.peer_id) {
-          const color = this.keyManager.getPeerColor(data.peer_id)
-          const publicKey = this.keyManager.getPeerPublicKey(data.peer_id)
-          this.keyManager.removePeer(data.peer_id)
-          this.onPeerLeft(data.peer_id, color, publicKey)
-          if (this.keyManager.shouldInitiateRekey() && this.keyManager.hasPeers()) {
-            await this.sendTreeCommit()
-          }
+      case 'peer_key':
+      case 'peer_joined':
+        await this.handlePeerKey(data)
+        break
+
+      case 'peer_left': {
+        const color = this.keyManager.getPeerColor(data.peer_id)
+        const peerPublicKey = this.keyManager.getPeerPublicKey(data.peer_id)
+        this.keyManager.removePeer(data.peer_id)
+        this.peerCapabilities.delete(data.peer_id)
+        this.peerRekeyPolicies.delete(data.peer_id)
+        this.welcomedAt.delete(data.peer_id)
+        this.outbox.removePeer(data.peer_id)
+        this.emit('peer_left', { peerId: data.peer_id, color, publicKey: peerPublicKey })
+        if (this.getRekeyPolicy().rekeyOnMembershipChange && this.keyManager.shouldInitiateRekey() && this.keyManager.hasPeers()) {
+          await this.sendTreeCommit()
         }
         break
+      }
 
       case 'tree_welcome':
-        if (data.tree_welcome) {
-          try {
-            const welcome: TreeKemWelcome = JSON.parse(data.tree_welcome)
-            await this.keyManager.receiveWelcome(welcome)
-            this.onStatus('Ready to chat')
-          } catch (e) {
-            console.error('Failed to receive tree welcome:', e)
-            this.onStatus('Failed to receive encryption key')
+        if (data.protocol_version !== undefined && data.cipher_suite !== undefined &&
+          !supports(LOCAL_CAPABILITIES, { protocolVersion: data.protocol_version, cipherSuite: data.cipher_suite })) {
+          this.emit('notice', { code: 'group_version_unsupported' })
+          break
+        }
+        try {
+          await this.keyManager.receiveWelcome(data.tree_welcome)
+          this.startEpoch()
+          this.emit('epoch', { epoch: this.keyManager.getEpoch(), reason: 'joined' })
+          this.emit('notice', { code: 'ready' })
+          this.finishResync()
+          this.flushOutbox()
+          await this.replayPending()
+        } catch (e) {
+          console.error('Failed to receive tree welcome:', e)
+          if (e instanceof MessageAuthenticationError) {
+            this.emit('security', { kind: 'forged_group_update', update: 'welcome', peerId: data.peer_id })
           }
+          this.emit('notice', { code: 'key_receive_failed' })
         }
         break
 
       case 'tree_commit':
-        if (data.tree_commit) {
-          try {
-            const commit: TreeKemCommit = JSON.parse(data.tree_commit)
-            await this.keyManager.receiveCommit(commit)
-            this.messagesSinceRekey = 0
-            this.onStatus('Encryption key rotated')
-          } catch (e) {
-            console.error('Failed to process tree commit:', e)
-          }
+        if (!this.keyManager.hasTreeState() || data.tree_commit.epoch > this.keyManager.getEpoch() + 1) {
+          await this.holdPending(data)
+          break
         }
+        await this.handleTreeCommit(data)
+        await this.replayPending()
         break
 
       case 'message':
-        if (data.peer_id && data.payload) {
-          try {
-            const decrypted = await this.keyManager.decryptMessage(data.peer_id, data.payload, data.epoch ?? 0, data.counter ?? 0)
-            const color = this.keyManager.getPeerColor(data.peer_id)
-            this.onMessage(data.peer_id, color, decrypted)
-          } catch {
-            console.error('Failed to decrypt message from', data.peer_id)
+        if (!this.keyManager.hasChain() || data.epoch > this.keyManager.getEpoch()) {
+          await this.holdPending(data)
+          break
+        }
+        await this.handleEncryptedMessage(data)
+        break
+
+      case 'resync_request':
+        if (this.keyManager.hasTreeState() && this.keyManager.shouldInitiateRekey(data.peer_id)) {
+          const sameTree = data.tree_hash === undefined || data.tree_hash === await this.keyManager.getTreeHash()
+          if (data.epoch === this.keyManager.getEpoch() && sameTree) {
+            this.send({ type: 'resync_ok', target_peer_id: data.peer_id, epoch: this.keyManager.getEpoch() })
+          } else {
+            await this.sendTreeWelcome(data.peer_id)
           }
+          if (this.getRekeyPolicy().rekeyOnResume) await this.sendTreeCommit()
         }
         break
 
-      case 'typing':
-        if (data.peer_id && this.onTyping) {
-          const color = this.keyManager.getPeerColor(data.peer_id)
-          this.onTyping(data.peer_id, color)
+      case 'resync_ok':
+        if (data.epoch === this.keyManager.getEpoch()) {
+          this.finishResync()
         }
         break
 
+      case 'pong':
+        if (data.peer_id === undefined) this.heartbeat.handlePong(data.nonce)
+        break
+
+      case 'ping':
+        break
+
       case 'room_expired':
-        this.onStatus('This room has expired')
+        this.roomClosed = true
+        this.emit('notice', { code: 'room_expired' })
         break
 
       case 'room_full':
-        this.onStatus('This room is full')
+        this.roomClosed = true
+        this.emit('notice', { code: 'room_full' })
         break
     }
   }
@@ -257,54 +488,355 @@ export class ChatConnection {
   private async sendTreeWelcome(peerId: string): Promise<void> {
     try {
       const welcome = await this.keyManager.generateWelcomeForPeer(peerId)
+      const version = this.getNegotiatedVersion()
       this.send({
         type: 'tree_welcome',
         target_peer_id: peerId,
-        tree_welcome: JSON.stringify(welcome)
+        tree_welcome: welcome,
+        protocol_version: version?.protocolVersion,
+        cipher_suite: this.keyManager.getCipherSuite() ?? version?.cipherSuite
       })
+      this.welcomedAt.set(peerId, this.keyManager.getEpoch())
+      this.flushOutbox()
     } catch (e) {
       console.error('Failed to send tree welcome:', e)
     }
   }
 
+  private async handleTreeCommit(data: TreeCommitFrame): Promise<void> {
+    const mismatch = validateCommitForTree(data.tree_commit, this.keyManager.getTreeSize())
+    if (mismatch) {
+      this.reportMalformedFrame(mismatch)
+      return
+    }
+    try {
+      const outcome = await this.keyManager.receiveCommit(data.tree_commit)
+      if (outcome === 'ignored') return
+      this.startEpoch()
+      this.emit('epoch', { epoch: this.keyManager.getEpoch(), reason: 'rotated' })
+      if (outcome === 'replaced') await this.recoverFromLostCommit()
+      this.flushOutbox()
+    } catch (e) {
+      console.error('Failed to process tree commit:', e)
+      if (e instanceof EpochForkError) {
+        await this.requestResync('fork')
+      } else if (e instanceof MessageAuthenticationError) {
+        this.emit('security', { kind: 'forged_group_update', update: 'commit', peerId: data.peer_id })
+      }
+    }
+  }
+
+  private async handleEncryptedMessage(data: MessageFrame): Promise<void> {
+    try {
+      const decrypted = await this.keyManager.decryptMessage(data.peer_id, data.payload, data.epoch, data.counter)
+      const content = decodeContent(decrypted.text)
+      if (!content) {
+        console.warn('Ignored unrecognised content from', data.peer_id)
+        return
+      }
+      if (contentTypeOf(content) !== decrypted.contentType) {
+        console.warn('Ignored content that does not match its envelope from', data.peer_id)
+        return
+      }
+      if (content.kind === 'text') this.messagesInEpoch++
+      this.handleContent(data.peer_id, content)
+      await this.rekeyIfDue()
+    } catch (e) {
+      if (e instanceof MessageAuthenticationError) {
+        console.warn('Rejected unauthenticated message from', data.peer_id, e.message)
+        this.emit('security', { kind: 'forged_message', peerId: data.peer_id, color: this.keyManager.getPeerColor(data.peer_id) })
+      } else if (e instanceof SkippedKeyEvictedError) {
+        this.emit('notice', { code: 'message_key_evicted' })
+      } else {
+        console.error('Failed to decrypt message from', data.peer_id)
+      }
+    }
+  }
+
+  private async holdPending(frame: PendingFrame): Promise<void> {
+    const dropped = this.pending.add(frame)
+    if (dropped) await this.reportUnprocessed([dropped])
+    this.schedulePendingExpiry()
+  }
+
+  private async replayPending(): Promise<void> {
+    if (!this.keyManager.hasChain()) return
+    let commit = this.pending.takeCommit(this.keyManager.getEpoch() + 1)
+    while (commit) {
+      await this.handleTreeCommit(commit)
+      commit = this.pending.takeCommit(this.keyManager.getEpoch() + 1)
+    }
+    for (const message of this.pending.takeMessages(this.keyManager.getEpoch())) {
+      await this.handleEncryptedMessage(message)
+    }
+  }
+
+  private schedulePendingExpiry(): void {
+    if (this.pendingTimer) return
+    const next = this.pending.nextExpiry()
+    if (next === null) return
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null
+      this.inbound = this.inbound
+        .then(() => this.expirePending())
+        .catch(e => console.error('Failed to expire pending frames:', e))
+    }, Math.max(0, next - Date.now()))
+  }
+
+  private async expirePending(): Promise<void> {
+    await this.reportUnprocessed(this.pending.expire())
+    this.schedulePendingExpiry()
+  }
+
+  private async reportUnprocessed(frames: PendingFrame[]): Promise<void> {
+    const messages = frames.filter(frame => frame.type === 'message').length
+    if (messages > 0) this.emit('notice', { code: 'messages_undecryptable', count: messages })
+    const missedCommit = frames.some(frame => frame.type === 'tree_commit' && frame.tree_commit.epoch > this.keyManager.getEpoch())
+    if (missedCommit && this.keyManager.hasTreeState()) await this.requestResync('fork')
+  }
+
+  private clearPending(): void {
+    this.pending.clear()
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer)
+      this.pendingTimer = null
+    }
+  }
+
+  private async recoverFromLostCommit(): Promise<void> {
+    this.outbox.requeueUnconfirmed()
+    const epoch = this.keyManager.getEpoch()
+    for (const [peerId, welcomedEpoch] of this.welcomedAt) {
+      if (welcomedEpoch === epoch) await this.sendTreeWelcome(peerId)
+    }
+  }
+
   private async sendTreeCommit(): Promise<void> {
     try {
       const commit = await this.keyManager.initiateRekey()
       this.send({
         type: 'tree_commit',
-        tree_commit: JSON.stringify(commit)
+        tree_commit: commit
       })
-      this.messagesSinceRekey = 0
+      this.startEpoch()
+      this.persistGroupState()
+      this.emit('epoch', { epoch: this.keyManager.getEpoch(), reason: 'rotated' })
     } catch (e) {
       console.error('Failed to send tree commit:', e)
     }
   }
 
+  // Writes are queued so an older snapshot never lands after a newer one
+  private persistGroupState(): void {
+    const state = this.closedByUser || this.roomClosed ? null : this.keyManager.exportState()
+    const resumeToken = this.resumeToken
+    this.stateSaves = this.stateSaves
+      .then(() => state ? saveGroupState(this.roomId, resumeToken, state, this.storage) : deleteGroupState(this.roomId, this.storage))
+      .catch(e => console.error('Failed to save group state:', e))
+  }
+
   private send(data: object): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data))
+    if (this.transport && this.transport.isOpen()) {
+      this.transport.send(encodeFrame(data, this.encoding))
     }
   }
 
-  async sendMessage(text: string): Promise<void> {
-    if (!this.keyManager.hasChain()) return
-    const { payload, epoch, counter } = await this.keyManager.encryptMessage(text)
+  private isReady(): boolean {
+    return this.state === 'connected' && !this.awaitingResync && this.keyManager.hasChain()
+  }
+
+  private rememberMessageId(messageId: string): void {
+    this.seenMessageIds.add(messageId)
+    if (this.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.seenMessageIds.values().next().value
+      if (oldest !== undefined) this.seenMessageIds.delete(oldest)
+    }
+  }
+
+  private outboxStorageKey(): string {
+    return `parrhesia-outbox-${this.roomId}`
+  }
+
+  private async loadOutbox(): Promise<OutboxEntry[]> {
+    const stored = getKeyValueStore(this.storage).getItem(this.outboxStorageKey())
+    if (!stored || !this.storageKey) return []
+    try {
+      const parsed = JSON.parse(stored)
+      if (!isEncryptedData(parsed)) return []
+      return await decryptMessages(parsed, this.storageKey) as OutboxEntry[]
+    } catch {
+      return []
+    }
+  }
+
+  private async persistOutbox(): Promise<void> {
+    if (!this.storageKey) return
+    const entries = this.outbox.list()
+    if (entries.length === 0) {
+      getKeyValueStore(this.storage).removeItem(this.outboxStorageKey())
+      return
+    }
+    const encrypted = await encryptMessages(entries, this.storageKey)
+    getKeyValueStore(this.storage).setItem(this.outboxStorageKey(), JSON.stringify(encrypted))
+  }
+
+  private flushOutbox(): void {
+    if (!this.isReady() || !this.keyManager.hasPeers()) return
+    void (async () => {
+      for (const entry of this.outbox.pending()) {
+        await this.transmit(entry)
+      }
+      await this.flushAcks()
+    })()
+  }
+
+  private async sendContent(content: Content): Promise<boolean> {
+    const { payload, epoch, counter } = await this.keyManager.encryptMessage(encodeContent(content), contentTypeOf(content))
+    this.persistGroupState()
+    if (!this.transport?.isOpen()) return false
     this.send({ type: 'message', payload, epoch, counter })
-    this.messagesSinceRekey++
-    if (this.messagesSinceRekey >= this.rekeyInterval && this.keyManager.shouldInitiateRekey() && this.keyManager.hasPeers()) {
+    if (content.kind === 'text') this.messagesInEpoch++
+    return true
+  }
+
+  private startEpoch(): void {
+    this.messagesInEpoch = 0
+    this.epochStartedAt = Date.now()
+    this.scheduleRekeyTimer()
+  }
+
+  private rekeyDue(): boolean {
+    const policy = this.getRekeyPolicy()
+    return this.messagesInEpoch >= policy.messagesPerEpoch || Date.now() - this.epochStartedAt >= policy.maxEpochAgeMs
+  }
+
+  // Sends and receives both check the policy, so a second check must not race the first commit
+  private async rekeyIfDue(): Promise<void> {
+    if (this.rekeying || !this.rekeyDue() || !this.isReady() || !this.keyManager.shouldInitiateRekey() || !this.keyManager.hasPeers()) return
+    this.rekeying = true
+    try {
       await this.sendTreeCommit()
+    } finally {
+      this.rekeying = false
+    }
+  }
+
+  private clearRekeyTimer(): void {
+    if (this.rekeyTimer) {
+      clearTimeout(this.rekeyTimer)
+      this.rekeyTimer = null
+    }
+  }
+
+  private scheduleRekeyTimer(delay: number = this.epochStartedAt + this.getRekeyPolicy().maxEpochAgeMs - Date.now()): void {
+    this.clearRekeyTimer()
+    if (this.closedByUser || this.roomClosed) return
+    this.rekeyTimer = setTimeout(() => {
+      this.rekeyTimer = null
+      this.inbound = this.inbound
+        .then(() => this.rotateIfStale())
+        .catch(e => console.error('Failed to rotate epoch:', e))
+    }, Math.max(0, delay))
+  }
+
+  // Members other than the committer keep the timer armed so they can take over if the committer leaves
+  private async rotateIfStale(): Promise<void> {
+    await this.rekeyIfDue()
+    if (this.rekeyTimer) return
+    const remaining = this.epochStartedAt + this.getRekeyPolicy().maxEpochAgeMs - Date.now()
+    this.scheduleRekeyTimer(remaining > 0 ? remaining : this.getRekeyPolicy().maxEpochAgeMs)
+  }
+
+  private async transmit(entry: OutboxEntry): Promise<void> {
+    if (!this.isReady() || !this.keyManager.hasPeers() || entry.state !== 'pending') return
+    if (this.transmitting.has(entry.id)) return
+    this.transmitting.add(entry.id)
+    try {
+      if (!await this.sendContent({ kind: 'text', text: entry.text, id: entry.id })) return
+      this.outbox.markSent(entry.id, this.keyManager.getPeerIds())
+    } finally {
+      this.transmitting.delete(entry.id)
     }
+    await this.rekeyIfDue()
+  }
+
+  private async flushAcks(): Promise<void> {
+    for (const kind of ['delivered', 'read'] as const) {
+      const pending = this.pendingAcks[kind]
+      while (pending.size > 0 && this.isReady() && this.keyManager.hasPeers()) {
+        const messageIds = Array.from(pending).slice(0, MAX_RECEIPT_IDS)
+        messageIds.forEach(id => pending.delete(id))
+        if (!await this.sendContent({ kind, messageIds })) {
+          messageIds.forEach(id => pending.add(id))
+          return
+        }
+        await this.rekeyIfDue()
+      }
+    }
+  }
+
+  private queueAcks(kind: 'delivered' | 'read', messageIds: string[]): Promise<void> {
+    const pending = this.pendingAcks[kind]
+    for (const id of messageIds) {
+      if (pending.size >= MAX_PENDING_ACKS) break
+      pending.add(id)
+    }
+    return this.flushAcks()
+  }
+
+  async markRead(messageIds: string[]): Promise<void> {
+    await this.queueAcks('read', messageIds)
+  }
+
+  async sendMessage(text: string): Promise<string> {
+    if (this.state === 'disconnected') throw new Error('Not connected')
+    const entry = this.outbox.add(text)
+    await this.transmit(entry)
+    return entry.id
+  }
+
+  getDeliveryState(messageId: string): DeliveryState | undefined {
+    return this.outbox.get(messageId)?.state
   }
 
   sendTyping(): void {
-    this.send({ type: 'typing' })
+    if (!this.isReady() || !this.keyManager.hasPeers()) return
+    this.sendContent({ kind: 'typing' }).catch(e => console.error('Failed to send typing indicator:', e))
+  }
+
+  setPaddingPolicy(policy: PaddingPolicy): void {
+    this.keyManager.setPaddingPolicy(policy)
+  }
+
+  setEpochRetention(retention: EpochRetention): void {
+    this.keyManager.setEpochRetention(retention)
   }
 
   disconnect(): void {
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+    this.closedByUser = true
+    this.heartbeat.stop()
+    this.clearPending()
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.clearResyncTimer()
+    this.clearRekeyTimer()
+    if (this.transport) {
+      const transport = this.transport
+      this.transport = null
+      transport.close()
     }
+    this.persistGroupState()
+    this.setState('disconnected')
+  }
+
+  getRekeyPolicy(): RekeyPolicy {
+    return strictestPolicy([this.rekeyPolicy, ...this.peerRekeyPolicies.values()])
+  }
+
+  getNegotiatedVersion(): NegotiatedVersion | null {
+    return negotiate([LOCAL_CAPABILITIES, ...this.peerCapabilities.values()])
   }
 
   getPeerId(): string {
@@ -336,6 +868,15 @@ export class ChatConnection {
     return this.keyManager.getPeerPublicKey(peerId)
   }
 
+  getSkippedKeyMetrics(): SkippedKeyMetrics {
+    return this.keyManager.getSkippedKeyMetrics()
+  }
+
+  async getGroupSafetyNumber(): Promise<string | null> {
+    const authenticator = await this.keyManager.getEpochAuthenticator()
+    return authenticator ? generateGroupSafetyNumber(authenticator) : null
+  }
+
   getPeerColor(peerId: string): PeerColor {
     return this.keyManager.getPeerColor(peerId)
   }
@@ -350,15 +891,15 @@ export class ChatConnection {
 
 }
 
-export async function createRoom(): Promise<string> {
-  const response = await fetch(config.endpoints.createRoom, { method: 'POST' })
+export async function createRoom(apiBase: string = getPreferredRelay()): Promise<string> {
+  const response = await fetch(relayEndpoints(apiBase).createRoom, { method: 'POST' })
   const data = await response.json()
   return data.room_id
 }
 
-export async function checkRoom(roomId: string): Promise<boolean> {
+export async function checkRoom(roomId: string, apiBase: string = resolveRoomRelay(roomId)): Promise<boolean> {
   try {
-    const response = await fetch(config.endpoints.checkRoom(roomId))
+    const response = await fetch(relayEndpoints(apiBase).checkRoom(roomId))
     if (!response.ok) return false
     const data = await response.json()
     return data.exists === true
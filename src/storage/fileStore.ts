@@ -0,0 +1,91 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { base64ToUint8Array, uint8ArrayToBase64 } from '../crypto/crypto'
+import type { KeyValueStore, SecureStore } from './storage'
+
+function readJson(path: string): Record<string, unknown> {
+  if (!existsSync(path)) return {}
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'))
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeJson(path: string, value: object): void {
+  writeFileSync(path, JSON.stringify(value), { mode: 0o600 })
+}
+
+export class FileKeyValueStore implements KeyValueStore {
+  private path: string
+  private entries: Record<string, string>
+
+  constructor(dir: string) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 })
+    this.path = join(dir, 'store.json')
+    const stored = readJson(this.path)
+    this.entries = Object.fromEntries(
+      Object.entries(stored).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    )
+  }
+
+  getItem(key: string): string | null {
+    return Object.hasOwn(this.entries, key) ? this.entries[key] : null
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries[key] = String(value)
+    writeJson(this.path, this.entries)
+  }
+
+  removeItem(key: string): void {
+    if (!Object.hasOwn(this.entries, key)) return
+    delete this.entries[key]
+    writeJson(this.path, this.entries)
+  }
+}
+
+// The device key is written as plain JWK next to the records it seals, so this store keeps nothing
+// from anyone who can read the directory; file permissions are the only protection
+export class FileSecureStore implements SecureStore {
+  readonly extractableKeys = true
+  private path: string
+  private recordsPath: string
+
+  constructor(dir: string) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 })
+    this.path = join(dir, 'keys.json')
+    this.recordsPath = join(dir, 'records.json')
+  }
+
+  async getKey(id: string): Promise<CryptoKey | null> {
+    const jwk = readJson(this.path)[id]
+    if (typeof jwk !== 'object' || jwk === null) return null
+    return crypto.subtle.importKey('jwk', jwk as JsonWebKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  }
+
+  async putKey(id: string, key: CryptoKey): Promise<void> {
+    const keys = readJson(this.path)
+    keys[id] = await crypto.subtle.exportKey('jwk', key)
+    writeJson(this.path, keys)
+  }
+
+  async getRecord(id: string): Promise<Uint8Array | null> {
+    const record = readJson(this.recordsPath)[id]
+    return typeof record === 'string' ? base64ToUint8Array(record) : null
+  }
+
+  async putRecord(id: string, data: Uint8Array): Promise<void> {
+    const records = readJson(this.recordsPath)
+    records[id] = uint8ArrayToBase64(data)
+    writeJson(this.recordsPath, records)
+  }
+
+  async deleteRecord(id: string): Promise<void> {
+    const records = readJson(this.recordsPath)
+    if (!Object.hasOwn(records, id)) return
+    delete records[id]
+    writeJson(this.recordsPath, records)
+  }
+}
@@ -0,0 +1,97 @@
+import type { SecureStore } from './storage'
+
+const DB_NAME = 'parrhesia'
+const STORE_NAME = 'keys'
+const RECORD_STORE_NAME = 'records'
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 2)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of [STORE_NAME, RECORD_STORE_NAME]) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbGet(db: IDBDatabase, key: string, storeName: string = STORE_NAME): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly')
+    const request = tx.objectStore(storeName).get(key)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbPut(db: IDBDatabase, key: string, value: unknown, storeName: string = STORE_NAME): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite')
+    const request = tx.objectStore(storeName).put(value, key)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbDelete(db: IDBDatabase, key: string, storeName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite')
+    const request = tx.objectStore(storeName).delete(key)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDbSecureStore implements SecureStore {
+  readonly extractableKeys = false
+
+  async getKey(id: string): Promise<CryptoKey | null> {
+    const db = await openDb()
+    try {
+      const existing = await idbGet(db, id)
+      return existing instanceof CryptoKey ? existing : null
+    } finally {
+      db.close()
+    }
+  }
+
+  async putKey(id: string, key: CryptoKey): Promise<void> {
+    const db = await openDb()
+    try {
+      await idbPut(db, id, key)
+    } finally {
+      db.close()
+    }
+  }
+
+  async getRecord(id: string): Promise<Uint8Array | null> {
+    const db = await openDb()
+    try {
+      const existing = await idbGet(db, id, RECORD_STORE_NAME)
+      return existing instanceof Uint8Array ? existing : null
+    } finally {
+      db.close()
+    }
+  }
+
+  async putRecord(id: string, data: Uint8Array): Promise<void> {
+    const db = await openDb()
+    try {
+      await idbPut(db, id, data, RECORD_STORE_NAME)
+    } finally {
+      db.close()
+    }
+  }
+
+  async deleteRecord(id: string): Promise<void> {
+    const db = await openDb()
+    try {
+      await idbDelete(db, id, RECORD_STORE_NAME)
+    } finally {
+      db.close()
+    }
+  }
+}
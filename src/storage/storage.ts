@@ -0,0 +1,87 @@
+import { IndexedDbSecureStore } from './indexedDb'
+
+export interface KeyValueStore {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+export interface SecureStore {
+  readonly extractableKeys: boolean
+  getKey(id: string): Promise<CryptoKey | null>
+  putKey(id: string, key: CryptoKey): Promise<void>
+  getRecord(id: string): Promise<Uint8Array | null>
+  putRecord(id: string, data: Uint8Array): Promise<void>
+  deleteRecord(id: string): Promise<void>
+}
+
+export interface StorageOptions {
+  keyValue?: KeyValueStore
+  secure?: SecureStore
+}
+
+let keyValueStore: KeyValueStore | null = null
+let secureStore: SecureStore | null = null
+
+export function configureStorage(options: StorageOptions): void {
+  if (options.keyValue) keyValueStore = options.keyValue
+  if (options.secure) secureStore = options.secure
+}
+
+// Stores passed to a client take precedence over the process-wide ones from configureStorage
+export function getKeyValueStore(storage: StorageOptions = {}): KeyValueStore {
+  if (storage.keyValue) return storage.keyValue
+  if (keyValueStore) return keyValueStore
+  if (typeof localStorage === 'undefined') throw new Error('No key-value store configured')
+  return localStorage
+}
+
+export function getSecureStore(storage: StorageOptions = {}): SecureStore {
+  if (storage.secure) return storage.secure
+  if (secureStore) return secureStore
+  if (typeof indexedDB === 'undefined') throw new Error('No secure store configured')
+  secureStore = new IndexedDbSecureStore()
+  return secureStore
+}
+
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries: Map<string, string> = new Map()
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, String(value))
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key)
+  }
+}
+
+export class MemorySecureStore implements SecureStore {
+  readonly extractableKeys = false
+  private keys: Map<string, CryptoKey> = new Map()
+  private records: Map<string, Uint8Array> = new Map()
+
+  async getKey(id: string): Promise<CryptoKey | null> {
+    return this.keys.get(id) ?? null
+  }
+
+  async putKey(id: string, key: CryptoKey): Promise<void> {
+    this.keys.set(id, key)
+  }
+
+  async getRecord(id: string): Promise<Uint8Array | null> {
+    return this.records.get(id)?.slice() ?? null
+  }
+
+  async putRecord(id: string, data: Uint8Array): Promise<void> {
+    this.records.set(id, data.slice())
+  }
+
+  async deleteRecord(id: string): Promise<void> {
+    this.records.delete(id)
+  }
+}
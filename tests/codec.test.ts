@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { decodeBinary, encodeBinary, encodeFrame } from '../src/network/codec'
+import { parseFrame } from '../src/network/protocol'
+import { buildGroup } from './helpers'
+
+function b64(bytes: number): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(bytes))))
+}
+
+describe('binary wire encoding', () => {
+  it('round-trips frames and restores base64 fields', () => {
+    const frame = { type: 'peer_joined', peer_id: 'p2', public_key: b64(1952), pq_public_key: b64(1184), sig: b64(3309), protocol_versions: [1], extra: 'kept' }
+    const encoded = encodeBinary(frame)
+    expect(decodeBinary(encoded)).toEqual(frame)
+    expect(encoded.length).toBeLessThan(1952 + 1184 + 3309 + 64)
+    expect(encoded.length).toBeLessThan(JSON.stringify(frame).length * 0.8)
+  })
+
+  it('carries commits and welcomes natively instead of as nested JSON', async () => {
+    const [a, , c] = await buildGroup(3)
+    const commit = await a.mgr.initiateRekey()
+    const welcome = await a.mgr.generateWelcomeForPeer(c.id)
+
+    const commitFrame = { type: 'tree_commit', peer_id: 'p1', tree_commit: commit }
+    const binary = encodeFrame(commitFrame, 'binary') as Uint8Array
+    const json = encodeFrame(commitFrame, 'json') as string
+    expect(binary.length).toBeLessThan(json.length * 0.8)
+
+    const parsedCommit = parseFrame(binary)
+    expect(parsedCommit.ok && parsedCommit.frame.type === 'tree_commit' && parsedCommit.frame.tree_commit).toEqual(commit)
+    const parsedJson = parseFrame(json)
+    expect(parsedJson.ok && parsedJson.frame.type === 'tree_commit' && parsedJson.frame.tree_commit).toEqual(commit)
+
+    const parsedWelcome = parseFrame(encodeFrame({ type: 'tree_welcome', tree_welcome: JSON.stringify(welcome) }, 'binary'))
+    expect(parsedWelcome.ok && parsedWelcome.frame.type === 'tree_welcome' && parsedWelcome.frame.tree_welcome).toEqual(welcome)
+  })
+
+  it('leaves strings that are not canonical base64 untouched', () => {
+    const frame = { type: 'message', payload: 'not base64!', sig: 'YQ' }
+    expect(decodeBinary(encodeBinary(frame))).toEqual(frame)
+  })
+
+  it('rejects truncated, trailing and unknown input', () => {
+    const encoded = encodeBinary({ type: 'typing', peer_id: 'p1' })
+    expect(parseFrame(encoded.subarray(0, encoded.length - 1))).toEqual({ ok: false, error: 'Frame is not valid binary' })
+    expect(parseFrame(new Uint8Array([...encoded, 0])).ok).toBe(false)
+    expect(parseFrame(new Uint8Array([0x50, 2, 0])).ok).toBe(false)
+    expect(parseFrame(new Uint8Array([0x50, 1, 8, 1, 200, 0])).ok).toBe(false)
+  })
+})
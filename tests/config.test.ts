@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  allowRelay,
+  getDefaultRelay,
+  getPreferredRelay,
+  getRoomRelay,
+  isRelayAllowed,
+  normalizeRelayUrl,
+  relayEndpoints,
+  resolveRoomRelay,
+  setPreferredRelay,
+  setRoomRelay,
+} from '../src/network/config'
+
+describe('relay URL validation', () => {
+  it('normalizes https and wss addresses', () => {
+    expect(normalizeRelayUrl('https://relay.example.org/')).toBe('https://relay.example.org')
+    expect(normalizeRelayUrl(' wss://relay.example.org/chat/ ')).toBe('https://relay.example.org/chat')
+  })
+
+  it('allows plain http only for local development', () => {
+    expect(normalizeRelayUrl('http://localhost:8080')).toBe('http://localhost:8080')
+    expect(normalizeRelayUrl('http://relay.example.org')).toBeNull()
+  })
+
+  it('rejects credentials, queries and garbage', () => {
+    expect(normalizeRelayUrl('https://user:pw@relay.example.org')).toBeNull()
+    expect(normalizeRelayUrl('https://relay.example.org/?x=1')).toBeNull()
+    expect(normalizeRelayUrl('javascript:alert(1)')).toBeNull()
+    expect(normalizeRelayUrl('not a url')).toBeNull()
+  })
+})
+
+describe('relay allowlist', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('always allows the default relay', () => {
+    expect(isRelayAllowed(getDefaultRelay())).toBe(true)
+    expect(getPreferredRelay()).toBe(getDefaultRelay())
+  })
+
+  it('refuses relays the user has not confirmed', () => {
+    const relay = 'https://relay.example.org'
+    expect(isRelayAllowed(relay)).toBe(false)
+    expect(() => setPreferredRelay(relay)).toThrow(/allowlist/)
+    expect(() => setRoomRelay('room', relay)).toThrow(/allowlist/)
+
+    allowRelay(relay)
+    setPreferredRelay(relay)
+    expect(getPreferredRelay()).toBe(relay)
+  })
+
+  it('remembers the relay per room', () => {
+    const relay = 'https://relay.example.org'
+    allowRelay(relay)
+    setRoomRelay('abc', relay)
+    expect(getRoomRelay('abc')).toBe(relay)
+    expect(resolveRoomRelay('abc')).toBe(relay)
+    expect(resolveRoomRelay('other')).toBe(getDefaultRelay())
+  })
+})
+
+describe('relay endpoints', () => {
+  it('derives REST and websocket endpoints from the base', () => {
+    const endpoints = relayEndpoints('https://relay.example.org/chat')
+    expect(endpoints.createRoom).toBe('https://relay.example.org/chat/api/rooms')
+    expect(endpoints.checkRoom('r1')).toBe('https://relay.example.org/chat/api/rooms/r1')
+    expect(endpoints.websocket('r1')).toBe('wss://relay.example.org/chat/ws/r1')
+    expect(endpoints.websocket('r1', 'a b')).toBe('wss://relay.example.org/chat/ws/r1?resume=a%20b')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { contentTypeOf, decodeContent, encodeContent, MAX_RECEIPT_IDS } from '../src/network/content'
+
+describe('message content', () => {
+  it('round-trips text and read receipts', () => {
+    expect(decodeContent(encodeContent({ kind: 'text', text: 'hi' }))).toEqual({ kind: 'text', text: 'hi' })
+    expect(decodeContent(encodeContent({ kind: 'read', messageIds: ['a', 'b'] }))).toEqual({ kind: 'read', messageIds: ['a', 'b'] })
+    expect(decodeContent(encodeContent({ kind: 'text', text: 'hi', id: 'm1' }))).toEqual({ kind: 'text', text: 'hi', id: 'm1' })
+    expect(decodeContent(encodeContent({ kind: 'typing' }))).toEqual({ kind: 'typing' })
+  })
+
+  it('treats plaintext from older clients as text', () => {
+    expect(decodeContent('hello')).toEqual({ kind: 'text', text: 'hello' })
+    expect(decodeContent('{"not":"content"}')).toEqual({ kind: 'text', text: '{"not":"content"}' })
+  })
+
+  it('rejects malformed receipts and unknown kinds', () => {
+    expect(decodeContent(JSON.stringify({ kind: 'read', messageIds: [] }))).toBeNull()
+    expect(decodeContent(JSON.stringify({ kind: 'read', messageIds: [1] }))).toBeNull()
+    expect(decodeContent(JSON.stringify({ kind: 'read', messageIds: Array(MAX_RECEIPT_IDS + 1).fill('x') }))).toBeNull()
+    expect(decodeContent(JSON.stringify({ kind: 'delivered', messageIds: 'm1' }))).toBeNull()
+    expect(decodeContent(JSON.stringify({ kind: 'text', text: 'hi', id: 7 }))).toBeNull()
+    expect(decodeContent(JSON.stringify({ kind: 'reaction' }))).toBeNull()
+  })
+
+  it('gives every kind its own envelope content type', () => {
+    const types = [
+      contentTypeOf({ kind: 'text', text: 'hi' }),
+      contentTypeOf({ kind: 'read', messageIds: ['a'] }),
+      contentTypeOf({ kind: 'delivered', messageIds: ['a'] }),
+      contentTypeOf({ kind: 'typing' })
+    ]
+    expect(new Set(types).size).toBe(4)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { callCrypto, configureCryptoWorker, type CryptoWorkerPort } from '../src/crypto/cryptoClient'
+import { handleCryptoRequest, type CryptoRequest } from '../src/crypto/workerOps'
+import { generateSigningKeyPair } from '../src/crypto/crypto'
+import { CIPHER_SUITE_HYBRID } from '../src/crypto/kem'
+import { buildGroup } from './helpers'
+
+class FakeWorker implements CryptoWorkerPort {
+  requests: CryptoRequest[] = []
+  private handles: number[] = []
+  private listeners: { message: ((event: MessageEvent) => void)[]; error: ((event: Event) => void)[] } = { message: [], error: [] }
+
+  constructor(private respond = true) {}
+
+  postMessage(message: CryptoRequest): void {
+    const request = structuredClone(message)
+    this.requests.push(request)
+    if (!this.respond) return
+    void handleCryptoRequest(request).then(response => {
+      if (request.op === 'importSigningKey' && response.ok) this.handles.push(response.result as number)
+      for (const listener of this.listeners.message) listener({ data: structuredClone(response) } as MessageEvent)
+    })
+  }
+
+  addEventListener(type: 'message' | 'error', listener: (event: never) => void): void {
+    this.listeners[type].push(listener)
+  }
+
+  // Keys imported into a real worker are lost with it
+  fail(): void {
+    for (const handle of this.handles) void handleCryptoRequest({ id: 0, op: 'releaseSigningKey', args: [handle] })
+    for (const listener of this.listeners.error) listener(new Event('error'))
+  }
+}
+
+const data = new TextEncoder().encode('authenticated data')
+
+describe('crypto worker', () => {
+  afterEach(() => configureCryptoWorker())
+
+  it('runs in-thread when workers are unavailable and signs only by handle', async () => {
+    const kp = generateSigningKeyPair()
+    const handle = await callCrypto('importSigningKey', kp.secretKey)
+    kp.secretKey.fill(0)
+
+    const signature = await callCrypto('sign', handle, data)
+    expect(await callCrypto('verify', kp.publicKey, data, signature)).toBe(true)
+
+    await callCrypto('releaseSigningKey', handle)
+    await expect(callCrypto('sign', handle, data)).rejects.toThrow('Unknown signing key')
+  })
+
+  it('routes requests through the worker and matches responses by id', async () => {
+    const worker = new FakeWorker()
+    configureCryptoWorker(() => worker)
+
+    const kp = await callCrypto('generateKemKeyPair', CIPHER_SUITE_HYBRID)
+    const [sent, received] = await Promise.all([
+      callCrypto('kemEncapsulate', kp.publicKey),
+      callCrypto('sign', 12345, data).catch((err: Error) => err.message)
+    ])
+    expect(received).toBe('Unknown signing key')
+    const shared = await callCrypto('kemDecapsulate', sent.ciphertext, kp.secretKey)
+    expect(Array.from(shared)).toEqual(Array.from(sent.sharedSecret))
+    expect(worker.requests.map(request => request.op)).toEqual(['generateKemKeyPair', 'kemEncapsulate', 'sign', 'kemDecapsulate'])
+  })
+
+  it('rejects outstanding calls and runs in-thread when the worker fails to load', async () => {
+    const workers: FakeWorker[] = []
+    configureCryptoWorker(() => {
+      const worker = new FakeWorker(false)
+      workers.push(worker)
+      return worker
+    })
+
+    const call = callCrypto('verify', new Uint8Array(1952), data, new Uint8Array(3309))
+    workers[0].fail()
+    await expect(call).rejects.toThrow('Crypto worker failed')
+    expect(await callCrypto('verify', new Uint8Array(1952), data, new Uint8Array(3309))).toBe(false)
+    expect(workers).toHaveLength(1)
+    expect(workers[0].requests).toHaveLength(1)
+  })
+
+  it('starts a fresh worker for calls made after the worker fails', async () => {
+    const workers: FakeWorker[] = []
+    configureCryptoWorker(() => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker
+    })
+
+    expect(await callCrypto('verify', new Uint8Array(1952), data, new Uint8Array(3309))).toBe(false)
+    workers[0].fail()
+    expect(await callCrypto('verify', new Uint8Array(1952), data, new Uint8Array(3309))).toBe(false)
+    expect(workers).toHaveLength(2)
+    expect(workers[1].requests.map(request => request.op)).toEqual(['verify'])
+  })
+
+  it('imports the signing key again after the worker crashes', async () => {
+    const workers: FakeWorker[] = []
+    configureCryptoWorker(() => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker
+    })
+    const [a, b] = await buildGroup(2)
+
+    workers[workers.length - 1].fail()
+    const sent = await a.mgr.encryptMessage('signed after the crash')
+    expect((await b.mgr.decryptMessage('a', sent.payload, sent.epoch, sent.counter)).text).toBe('signed after the crash')
+    const commit = await b.mgr.initiateRekey()
+    expect(await a.mgr.receiveCommit(commit)).toBe('applied')
+    expect(workers.length).toBeGreaterThan(1)
+  })
+})
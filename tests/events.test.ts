@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TypedEmitter } from '../src/network/events'
+
+interface TestEvents {
+  ping: { n: number }
+  pong: string
+}
+
+class Emitter extends TypedEmitter<TestEvents> {
+  fire<K extends keyof TestEvents>(name: K, event: TestEvents[K]): void {
+    this.emit(name, event)
+  }
+}
+
+describe('TypedEmitter', () => {
+  it('delivers events to subscribers until they unsubscribe', () => {
+    const emitter = new Emitter()
+    const seen: number[] = []
+    const unsubscribe = emitter.on('ping', ({ n }) => seen.push(n))
+    emitter.fire('ping', { n: 1 })
+    unsubscribe()
+    emitter.fire('ping', { n: 2 })
+    expect(seen).toEqual([1])
+  })
+
+  it('keeps notifying other listeners when one throws', () => {
+    const emitter = new Emitter()
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const listener = vi.fn()
+    emitter.on('pong', () => { throw new Error('boom') })
+    emitter.on('pong', listener)
+    emitter.fire('pong', 'hi')
+    expect(listener).toHaveBeenCalledWith('hi')
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+
+  it('removes a listener with off', () => {
+    const emitter = new Emitter()
+    const listener = vi.fn()
+    emitter.on('pong', listener)
+    emitter.off('pong', listener)
+    emitter.fire('pong', 'hi')
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Heartbeat } from '../src/network/heartbeat'
+
+function setup() {
+  const pings: number[] = []
+  const onDead = vi.fn()
+  const heartbeat = new Heartbeat(nonce => pings.push(nonce), onDead, () => {}, 1000, 500)
+  return { heartbeat, pings, onDead }
+}
+
+describe('Heartbeat', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('measures latency from matching pongs', () => {
+    vi.useFakeTimers()
+    const { heartbeat, pings } = setup()
+    heartbeat.start()
+    expect(heartbeat.getQuality()).toBe('unknown')
+    vi.advanceTimersByTime(50)
+    heartbeat.handlePong(pings[0] + 1)
+    expect(heartbeat.getLatency()).toBeNull()
+    heartbeat.handlePong(pings[0])
+    expect(heartbeat.getLatency()).toBe(50)
+    expect(heartbeat.getQuality()).toBe('good')
+    heartbeat.stop()
+  })
+
+  it('declares the connection dead when a pong is overdue', () => {
+    vi.useFakeTimers()
+    const { heartbeat, pings, onDead } = setup()
+    heartbeat.start()
+    heartbeat.handlePong(pings[0])
+    vi.advanceTimersByTime(1000)
+    expect(pings).toHaveLength(2)
+    vi.advanceTimersByTime(499)
+    expect(onDead).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(onDead).toHaveBeenCalledOnce()
+    expect(heartbeat.getQuality()).toBe('poor')
+    vi.advanceTimersByTime(5000)
+    expect(pings).toHaveLength(2)
+  })
+
+  it('declares the connection dead when the first pong never arrives', () => {
+    vi.useFakeTimers()
+    const { heartbeat, pings, onDead } = setup()
+    heartbeat.start()
+    vi.advanceTimersByTime(499)
+    expect(onDead).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(onDead).toHaveBeenCalledOnce()
+    expect(pings).toHaveLength(1)
+  })
+
+  it('watches a new connection from its first ping after a restart', () => {
+    vi.useFakeTimers()
+    const { heartbeat, pings, onDead } = setup()
+    heartbeat.start()
+    heartbeat.handlePong(pings[0])
+    vi.advanceTimersByTime(1000)
+    heartbeat.stop()
+    heartbeat.start()
+    expect(heartbeat.getQuality()).toBe('unknown')
+    vi.advanceTimersByTime(500)
+    expect(onDead).toHaveBeenCalledOnce()
+  })
+})
@@ -1,12 +1,16 @@
 import { GroupKeyManager } from '../src/crypto/crypto'
+import { MemoryKeyValueStore, MemorySecureStore, type StorageOptions } from '../src/storage/storage'
+import type { TreeKemCommit } from '../src/crypto/treekem'
 
-const PEER_IDS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+const PEER_IDS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p']
 
 export interface Member {
   id: string
   mgr: GroupKeyManager
+  storage: StorageOptions
   signPub: string
   pqPub: string
+  ecPub: string
   sig: string
 }
 
@@ -24,15 +28,16 @@ export async function resetStorage(): Promise<void> {
   await deleteDb()
 }
 
-async function makeMember(id: string, isCreator: boolean, creatorId: string): Promise<Member> {
-  await resetStorage()
-  const mgr = new GroupKeyManager()
+export async function makeMember(id: string, isCreator: boolean, creatorId: string): Promise<Member> {
+  const storage = { keyValue: new MemoryKeyValueStore(), secure: new MemorySecureStore() }
+  const mgr = new GroupKeyManager('', storage)
   const signPub = await mgr.initialize()
   mgr.setCreatorStatus(isCreator, creatorId, id)
   const pqPub = mgr.getMlKemPublicKeyBase64()
-  const sig = mgr.signMlKemPublicKey()
-  if (!pqPub || !sig) throw new Error('member init failed')
-  return { id, mgr, signPub, pqPub, sig }
+  const ecPub = mgr.getEcPublicKeyBase64()
+  const sig = await mgr.signMlKemPublicKey()
+  if (!pqPub || !ecPub || !sig) throw new Error('member init failed')
+  return { id, mgr, storage, signPub, pqPub, ecPub, sig }
 }
 
 export async function buildGroup(n: number): Promise<Member[]> {
@@ -43,26 +48,49 @@ export async function buildGroup(n: number): Promise<Member[]> {
   const members: Member[] = [creator]
 
   for (let j = 1; j < n; j++) {
-    const joiner = await makeMember(ids[j], false, creatorId)
+    await joinGroup(members, await makeMember(ids[j], false, creatorId))
+  }
 
-    for (const m of members) {
-      await m.mgr.addPeer(joiner.id, joiner.signPub, joiner.pqPub, joiner.sig)
-    }
-    for (const m of members) {
-      await joiner.mgr.addPeer(m.id, m.signPub, m.pqPub, m.sig)
-    }
+  return members
+}
+
+export async function joinGroup(members: Member[], joiner: Member): Promise<TreeKemCommit> {
+  for (const m of members) {
+    await m.mgr.addPeer(joiner.id, joiner.signPub, joiner.pqPub, joiner.sig, joiner.ecPub)
+  }
+  for (const m of members) {
+    await joiner.mgr.addPeer(m.id, m.signPub, m.pqPub, m.sig, m.ecPub)
+  }
+
+  const committer = members.reduce((a, b) => (a.id < b.id ? a : b))
+  const commit = await committer.mgr.initiateRekey()
+  for (const m of members) {
+    if (m.id === committer.id) continue
+    await m.mgr.receiveCommit(commit)
+  }
+  const welcome = await committer.mgr.generateWelcomeForPeer(joiner.id)
+  await joiner.mgr.receiveWelcome(welcome)
+
+  members.push(joiner)
+  return commit
+}
 
-    const committer = members.reduce((a, b) => (a.id < b.id ? a : b))
+export async function commitInTurn(members: Member[]): Promise<TreeKemCommit[]> {
+  const commits: TreeKemCommit[] = []
+  for (const committer of members) {
     const commit = await committer.mgr.initiateRekey()
     for (const m of members) {
-      if (m.id === committer.id) continue
-      await m.mgr.receiveCommit(commit)
+      if (m !== committer) await m.mgr.receiveCommit(commit)
     }
-    const welcome = await committer.mgr.generateWelcomeForPeer(joiner.id)
-    await joiner.mgr.receiveWelcome(welcome)
-
-    members.push(joiner)
+    commits.push(commit)
   }
+  return commits
+}
 
-  return members
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 15000): Promise<void> {
+  const start = Date.now()
+  while (!(await condition())) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { base64ToUint8Array } from '../src/crypto/crypto'
+import {
+  CIPHER_SUITE_HYBRID,
+  CIPHER_SUITE_MLKEM,
+  HYBRID_CIPHERTEXT_LENGTH,
+  ML_KEM_CIPHERTEXT_LENGTH,
+  ML_KEM_PUBLIC_KEY_LENGTH,
+  generateKemKeyPair,
+  kemDecapsulate,
+  kemEncapsulate
+} from '../src/crypto/kem'
+import { TreeKemState } from '../src/crypto/treekem'
+import { buildGroup } from './helpers'
+
+describe('hybrid X25519 + ML-KEM encapsulation', { timeout: 30000 }, () => {
+  it('agrees on the shared secret for hybrid and ML-KEM-only keys', async () => {
+    for (const [suite, length] of [[CIPHER_SUITE_HYBRID, HYBRID_CIPHERTEXT_LENGTH], [CIPHER_SUITE_MLKEM, ML_KEM_CIPHERTEXT_LENGTH]]) {
+      const kp = await generateKemKeyPair(suite)
+      const { ciphertext, sharedSecret } = await kemEncapsulate(kp.publicKey)
+      expect(ciphertext.length).toBe(length)
+      expect(Array.from(await kemDecapsulate(ciphertext, kp.secretKey))).toEqual(Array.from(sharedSecret))
+    }
+  })
+
+  it('derives a different secret when either half of the ciphertext changes', async () => {
+    const kp = await generateKemKeyPair(CIPHER_SUITE_HYBRID)
+    const { ciphertext, sharedSecret } = await kemEncapsulate(kp.publicKey)
+    for (const offset of [0, ML_KEM_CIPHERTEXT_LENGTH]) {
+      const tampered = ciphertext.slice()
+      tampered[offset] ^= 1
+      const recovered = await kemDecapsulate(tampered, kp.secretKey).catch(() => null)
+      expect(recovered && Array.from(recovered)).not.toEqual(Array.from(sharedSecret))
+    }
+  })
+
+  it('rejects keys and ciphertexts of unknown length', async () => {
+    const kp = await generateKemKeyPair(CIPHER_SUITE_MLKEM)
+    await expect(kemEncapsulate(new Uint8Array(ML_KEM_PUBLIC_KEY_LENGTH + 1))).rejects.toThrow()
+    await expect(kemDecapsulate(new Uint8Array(HYBRID_CIPHERTEXT_LENGTH), kp.secretKey)).rejects.toThrow()
+  })
+
+  it('keeps parent nodes on ML-KEM alone while any leaf lacks an X25519 key', async () => {
+    const creator = await generateKemKeyPair(CIPHER_SUITE_HYBRID)
+    const tree = TreeKemState.createForCreator(creator.publicKey, creator.secretKey, new Uint8Array(1952))
+    expect(tree.cipherSuite()).toBe(CIPHER_SUITE_HYBRID)
+    tree.addLeaf((await generateKemKeyPair(CIPHER_SUITE_MLKEM)).publicKey, new Uint8Array(1952).fill(1))
+    expect(tree.cipherSuite()).toBe(CIPHER_SUITE_MLKEM)
+
+    const commit = await tree.generateCommit()
+    expect(base64ToUint8Array(commit.leafPublicKey).length).toBe(creator.publicKey.length)
+    expect(base64ToUint8Array(commit.path[0].newPublicKey).length).toBe(ML_KEM_PUBLIC_KEY_LENGTH)
+    expect(base64ToUint8Array(commit.path[0].recipients[0].mlKemCiphertext).length).toBe(ML_KEM_CIPHERTEXT_LENGTH)
+  })
+
+  it('runs a group on the hybrid suite end to end', async () => {
+    const members = await buildGroup(3)
+    for (const m of members) expect(m.mgr.getCipherSuite()).toBe(CIPHER_SUITE_HYBRID)
+    const { payload, epoch, counter } = await members[2].mgr.encryptMessage('hybrid')
+    expect((await members[0].mgr.decryptMessage('c', payload, epoch, counter)).text).toBe('hybrid')
+  })
+})
@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest'
+import { ChatConnection } from '../src/network/websocket'
+import { LocalRelay } from '../src/network/loopback'
+import type { NoticeCode } from '../src/network/events'
+import type { TransportFactory } from '../src/network/transport'
+import type { WireData } from '../src/network/codec'
+import { loadGroupState } from '../src/crypto/groupState'
+import { CONTENT_TYPE_TYPING, type GroupKeyManager } from '../src/crypto/crypto'
+import { encodeContent } from '../src/network/content'
+import { resetStorage, waitFor } from './helpers'
+
+interface Client {
+  conn: ChatConnection
+  received: { peerId: string; text: string; messageId?: string }[]
+  notices: NoticeCode[]
+  typing: string[]
+  delivery: Map<string, string>
+  readBy: Map<string, string[]>
+}
+
+async function join(relay: LocalRelay, roomId: string, transport: TransportFactory = relay.transport): Promise<Client> {
+  await resetStorage()
+  const client: Client = { conn: null as unknown as ChatConnection, received: [], notices: [], typing: [], delivery: new Map(), readBy: new Map() }
+  client.conn = new ChatConnection(roomId, { transport })
+  client.conn.on('message', ({ peerId, text, messageId }) => client.received.push({ peerId, text, messageId }))
+  client.conn.on('notice', ({ code }) => client.notices.push(code))
+  client.conn.on('typing', ({ peerId }) => client.typing.push(peerId))
+  client.conn.on('delivery', ({ messageId, state }) => client.delivery.set(messageId, state))
+  client.conn.on('read', ({ peerId, messageIds }) => {
+    for (const id of messageIds) client.readBy.set(id, [...(client.readBy.get(id) ?? []), peerId])
+  })
+  await client.conn.connect()
+  return client
+}
+
+async function joinAll(relay: LocalRelay, roomId: string, n: number): Promise<Client[]> {
+  const clients: Client[] = []
+  for (let i = 0; i < n; i++) {
+    const client = await join(relay, roomId)
+    clients.push(client)
+    if (clients.length === 1) {
+      await waitFor(() => client.notices.includes('waiting_for_peers'))
+      continue
+    }
+    await waitFor(() => clients.every(c => c.conn.canSend() && c.conn.getPeerCount() === clients.length - 1))
+    await waitFor(() => new Set(clients.map(epochOf)).size === 1)
+  }
+  return clients
+}
+
+function epochOf(client: Client): number {
+  return (client.conn as unknown as { keyManager: { getEpoch(): number } }).keyManager.getEpoch()
+}
+
+describe('loopback relay', { timeout: 30000 }, () => {
+  it('runs a three-member room end to end', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b, c] = await joinAll(relay, roomId, 3)
+
+    await a.conn.sendMessage('hello from a')
+    await c.conn.sendMessage('hello from c')
+    await waitFor(() => b.received.length === 2 && a.received.length === 1 && c.received.length === 1)
+    expect(b.received.map(m => m.text).sort()).toEqual(['hello from a', 'hello from c'])
+    expect(a.received[0]).toMatchObject({ peerId: c.conn.getPeerId(), text: 'hello from c' })
+
+    b.conn.sendTyping()
+    await waitFor(() => a.typing.length === 1 && c.typing.length === 1)
+  })
+
+  it('marks a message delivered once every member acknowledges it', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b, c] = await joinAll(relay, roomId, 3)
+
+    const id = await a.conn.sendMessage('ack me')
+    expect(a.delivery.get(id)).toBe('sent')
+    await waitFor(() => a.delivery.get(id) === 'delivered')
+    expect(b.received).toHaveLength(1)
+    expect(c.received).toHaveLength(1)
+  })
+
+  it('aggregates encrypted read receipts per message', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b, c] = await joinAll(relay, roomId, 3)
+
+    const id = await a.conn.sendMessage('read me')
+    await waitFor(() => b.received.length === 1 && c.received.length === 1)
+    expect(b.received[0].messageId).toBe(id)
+
+    await b.conn.markRead([id])
+    await c.conn.markRead([id])
+    await waitFor(() => a.readBy.get(id)?.length === 2)
+    expect(a.readBy.get(id)?.sort()).toEqual([b.conn.getPeerId(), c.conn.getPeerId()].sort())
+    expect(a.received).toHaveLength(0)
+  })
+
+  it('ignores content that does not match its envelope content type', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+
+    const internals = b.conn as unknown as { keyManager: GroupKeyManager; send(frame: object): void }
+    const mislabelled = await internals.keyManager.encryptMessage(encodeContent({ kind: 'text', text: 'dressed as typing' }), CONTENT_TYPE_TYPING)
+    internals.send({ type: 'message', ...mislabelled })
+    await b.conn.sendMessage('labelled honestly')
+    await waitFor(() => a.received.length === 1)
+    expect(a.received[0].text).toBe('labelled honestly')
+    expect(a.typing).toHaveLength(0)
+  })
+
+  it('rekeys when a member leaves and the rest keep talking', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b, c] = await joinAll(relay, roomId, 3)
+    const epoch = epochOf(a)
+    const epochs: number[] = []
+    b.conn.on('epoch', event => epochs.push(event.epoch))
+
+    c.conn.disconnect()
+    await waitFor(() => a.conn.getPeerCount() === 1 && b.conn.getPeerCount() === 1)
+    await waitFor(() => epochOf(a) === epoch + 1 && epochs.length === 1)
+    expect(epochs).toEqual([epoch + 1])
+
+    await b.conn.sendMessage('after leave')
+    await waitFor(() => a.received.length === 1)
+    expect(a.received[0].text).toBe('after leave')
+  })
+
+  it('settles concurrent commits on one branch', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const clients = await joinAll(relay, roomId, 3)
+    const [a, b, c] = clients
+    const epoch = epochOf(a)
+
+    const commit = (client: Client) => (client.conn as unknown as { sendTreeCommit(): Promise<void> }).sendTreeCommit()
+    await Promise.all([commit(b), commit(c)])
+    await waitFor(() => clients.every(client => epochOf(client) === epoch + 1))
+    await waitFor(async () => new Set(await Promise.all(clients.map(client => client.conn.getGroupSafetyNumber()))).size === 1)
+
+    await c.conn.sendMessage('after the race')
+    await waitFor(() => a.received.length === 1 && b.received.length === 1)
+    expect(b.received[0].text).toBe('after the race')
+  })
+
+  it('holds frames from future epochs until the missing commit arrives', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+    const held: WireData[] = []
+    let holding = false
+    let deliver: (raw: WireData) => void = () => {}
+    const c = await join(relay, roomId, (id, token, handlers) => {
+      deliver = handlers.onMessage
+      return relay.transport(id, token, { ...handlers, onMessage: raw => holding ? held.push(raw) : handlers.onMessage(raw) })
+    })
+    await waitFor(() => [a, b, c].every(client => client.conn.canSend()) && epochOf(c) === epochOf(a))
+    const epoch = epochOf(a)
+
+    holding = true
+    const commit = () => (a.conn as unknown as { sendTreeCommit(): Promise<void> }).sendTreeCommit()
+    await commit()
+    await a.conn.sendMessage('first')
+    await commit()
+    await a.conn.sendMessage('second')
+    await waitFor(() => b.received.length === 2)
+
+    holding = false
+    for (const raw of held.reverse()) deliver(raw)
+    await waitFor(() => c.received.length === 2)
+    expect(epochOf(c)).toBe(epoch + 2)
+    expect(c.received.map(m => m.text).sort()).toEqual(['first', 'second'])
+    expect(c.notices).not.toContain('messages_undecryptable')
+  })
+
+  it('turns away joiners once the room is full', async () => {
+    const relay = new LocalRelay({ capacity: 2 })
+    const roomId = relay.createRoom()
+    await joinAll(relay, roomId, 2)
+    const late = await join(relay, roomId)
+    await waitFor(() => late.notices.includes('disconnected'))
+    expect(late.notices).toContain('room_full')
+  })
+
+  it('reports room expiry without trying to reconnect', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a] = await joinAll(relay, roomId, 2)
+    relay.expireRoom(roomId)
+    await waitFor(() => a.conn.getConnectionState() === 'disconnected')
+    expect(a.notices).toContain('room_expired')
+    expect(a.notices).not.toContain('reconnecting')
+  })
+
+  it('switches to binary framing when the relay offers it', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+    expect(relay.getEncoding(roomId, a.conn.getPeerId())).toBe('binary')
+
+    await a.conn.sendMessage('over binary')
+    await waitFor(() => b.received.length === 1)
+    expect(b.received[0].text).toBe('over binary')
+  })
+
+  it('stays on JSON with relays that only speak JSON', async () => {
+    const relay = new LocalRelay({ encodings: ['json'] })
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+    expect(relay.getEncoding(roomId, a.conn.getPeerId())).toBe('json')
+
+    await b.conn.sendMessage('over json')
+    await waitFor(() => a.received.length === 1)
+    expect(a.received[0].text).toBe('over json')
+  })
+
+  it('measures round-trip latency to the relay', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a] = await joinAll(relay, roomId, 2)
+    await waitFor(() => a.conn.getConnectionStatus().latencyMs !== null)
+    expect(a.conn.getConnectionStatus()).toMatchObject({ state: 'connected', quality: 'good' })
+  })
+
+  it('resumes the same session after a dropped connection', async () => {
+    const relay = new LocalRelay({ resumeGraceMs: 5000 })
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+    const peerId = b.conn.getPeerId()
+
+    relay.dropPeer(roomId, peerId)
+    await waitFor(() => b.conn.getConnectionState() === 'reconnecting')
+    const id = await b.conn.sendMessage('queued while offline')
+    expect(b.conn.getDeliveryState(id)).toBe('pending')
+    await waitFor(() => b.notices.includes('reconnected'))
+
+    expect(b.conn.getPeerId()).toBe(peerId)
+    await waitFor(() => a.received.length === 1)
+    expect(a.received[0].text).toBe('queued while offline')
+    await waitFor(() => b.delivery.get(id) === 'delivered')
+  })
+
+  it('restores the group after a page reload without a rekey', async () => {
+    const relay = new LocalRelay({ resumeGraceMs: 5000 })
+    const roomId = relay.createRoom()
+    const saves = (client: Client) => (client.conn as unknown as { stateSaves: Promise<void> }).stateSaves
+    // Clients in this process share one store, so keep a's writes clear of b's device key and last snapshot
+    const [a] = await joinAll(relay, roomId, 1)
+    await saves(a)
+    const b = await join(relay, roomId)
+    await waitFor(() => a.conn.canSend() && b.conn.canSend() && epochOf(a) === epochOf(b))
+    const epoch = epochOf(a)
+    const peerId = b.conn.getPeerId()
+    const old = b.conn as unknown as { closedByUser: boolean; persistGroupState(): void }
+    await saves(a)
+    old.persistGroupState()
+    await saves(b)
+    old.closedByUser = true
+    relay.dropPeer(roomId, peerId)
+
+    const reloaded = new ChatConnection(roomId, { transport: relay.transport })
+    const notices: NoticeCode[] = []
+    const received: string[] = []
+    reloaded.on('notice', ({ code }) => notices.push(code))
+    reloaded.on('message', ({ text }) => received.push(text))
+    await reloaded.connect()
+    await waitFor(() => notices.includes('reconnected'))
+    expect(reloaded.getPeerId()).toBe(peerId)
+
+    await a.conn.sendMessage('after reload')
+    await waitFor(() => received.length === 1)
+    await reloaded.sendMessage('back again')
+    await waitFor(() => a.received.length === 1)
+    expect(a.received[0].text).toBe('back again')
+    expect(epochOf(a)).toBe(epoch)
+  })
+
+  it('forgets the saved group when the room expires', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [, b] = await joinAll(relay, roomId, 2)
+    await (b.conn as unknown as { stateSaves: Promise<void> }).stateSaves
+    expect(await loadGroupState(roomId)).not.toBeNull()
+
+    relay.expireRoom(roomId)
+    await waitFor(() => b.notices.includes('room_expired'))
+    await (b.conn as unknown as { stateSaves: Promise<void> }).stateSaves
+    expect(await loadGroupState(roomId)).toBeNull()
+  })
+
+  it('rejoins as a new member when the relay cannot resume', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await joinAll(relay, roomId, 2)
+    const oldPeerId = b.conn.getPeerId()
+
+    relay.dropPeer(roomId, oldPeerId)
+    await waitFor(() => b.conn.getConnectionState() === 'reconnecting')
+    await waitFor(() => b.conn.getConnectionState() === 'connected' && b.conn.canSend() && a.conn.canSend())
+    await waitFor(() => epochOf(a) === epochOf(b))
+    expect(b.conn.getPeerId()).not.toBe(oldPeerId)
+
+    await a.conn.sendMessage('welcome back')
+    await waitFor(() => b.received.length === 1)
+    expect(b.received[0].text).toBe('welcome back')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { Outbox, MAX_SEND_ATTEMPTS, MAX_OUTBOX_AGE_MS, type OutboxEntry } from '../src/network/outbox'
+
+function track(): { outbox: Outbox; changes: [string, string][] } {
+  const changes: [string, string][] = []
+  const outbox = new Outbox(entry => changes.push([entry.id, entry.state]))
+  return { outbox, changes }
+}
+
+describe('Outbox', () => {
+  it('settles as delivered only when every recipient acknowledges', () => {
+    const { outbox } = track()
+    const entry = outbox.add('hi')
+    outbox.markSent(entry.id, ['a', 'b'])
+    outbox.markDelivered(entry.id, 'a')
+    expect(outbox.get(entry.id)?.state).toBe('sent')
+    outbox.markDelivered(entry.id, 'b')
+    expect(outbox.get(entry.id)).toBeUndefined()
+    expect(entry.state).toBe('delivered')
+  })
+
+  it('ignores acknowledgements from peers that were not sent the message', () => {
+    const { outbox } = track()
+    const entry = outbox.add('hi')
+    outbox.markSent(entry.id, ['a'])
+    outbox.markDelivered(entry.id, 'intruder')
+    expect(outbox.get(entry.id)?.state).toBe('sent')
+  })
+
+  it('stops waiting for peers that left', () => {
+    const { outbox } = track()
+    const entry = outbox.add('hi')
+    outbox.markSent(entry.id, ['a', 'b'])
+    outbox.markDelivered(entry.id, 'a')
+    outbox.removePeer('b')
+    expect(entry.state).toBe('delivered')
+  })
+
+  it('fails messages whose every recipient left without acknowledging', () => {
+    const { outbox } = track()
+    const entry = outbox.add('hi')
+    outbox.markSent(entry.id, ['a', 'b'])
+    outbox.removePeer('a')
+    expect(outbox.get(entry.id)?.state).toBe('sent')
+    outbox.removePeer('b')
+    expect(outbox.get(entry.id)).toBeUndefined()
+    expect(entry.state).toBe('failed')
+    outbox.requeueUnconfirmed()
+    expect(outbox.pending()).toHaveLength(0)
+  })
+
+  it('requeues unconfirmed messages and retries without resending to peers that acked', () => {
+    const { outbox } = track()
+    const entry = outbox.add('hi')
+    outbox.markSent(entry.id, ['a', 'b'])
+    outbox.markDelivered(entry.id, 'a')
+    outbox.requeueUnconfirmed()
+    expect(outbox.pending().map(e => e.id)).toEqual([entry.id])
+    outbox.markSent(entry.id, ['a', 'b'])
+    expect(entry.awaiting).toEqual(['b'])
+    expect(entry.attempts).toBe(2)
+  })
+
+  it('fails messages that exhaust their attempts or grow too old', () => {
+    const { outbox, changes } = track()
+    const retried = outbox.add('retried')
+    for (let i = 0; i < MAX_SEND_ATTEMPTS; i++) {
+      outbox.markSent(retried.id, ['a'])
+      outbox.requeueUnconfirmed()
+    }
+    const stale = outbox.add('stale')
+    expect(outbox.pending(stale.createdAt + MAX_OUTBOX_AGE_MS + 1)).toEqual([])
+    expect(changes).toContainEqual([retried.id, 'failed'])
+    expect(changes).toContainEqual([stale.id, 'failed'])
+  })
+
+  it('restores unsettled entries as pending', () => {
+    const { outbox } = track()
+    const entries: OutboxEntry[] = [
+      { id: '1', text: 'x', state: 'sent', createdAt: Date.now(), attempts: 1, awaiting: ['a'], deliveredTo: [] },
+      { id: '2', text: 'y', state: 'failed', createdAt: Date.now(), attempts: 5, awaiting: [], deliveredTo: [] }
+    ]
+    outbox.load(entries)
+    expect(outbox.list().map(e => [e.id, e.state])).toEqual([['1', 'pending']])
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { pad, paddedLength, unpad } from '../src/crypto/crypto'
+import { buildGroup } from './helpers'
+
+describe('message padding', () => {
+  it('rounds lengths up to the policy buckets', () => {
+    expect(paddedLength(1, 'none')).toBe(1)
+    expect(paddedLength(1, 'power-of-two')).toBe(64)
+    expect(paddedLength(65, 'power-of-two')).toBe(128)
+    expect(paddedLength(1, 'padme')).toBe(64)
+    expect(paddedLength(1000, 'padme')).toBe(1024)
+    expect(paddedLength(9000, 'padme')).toBe(9216)
+    expect(paddedLength(60000, 'power-of-two')).toBe(63 * 1024)
+  })
+
+  it('strips the padding marker and rejects bad padding', () => {
+    const bytes = new TextEncoder().encode('hi\u0000')
+    const padded = pad(bytes, 'padme')
+    expect(padded.length).toBe(64)
+    expect(unpad(padded)).toEqual(bytes)
+    expect(() => unpad(new Uint8Array(64))).toThrow(/Invalid padding/)
+    expect(() => unpad(new Uint8Array([1, 2, 0]))).toThrow(/Invalid padding/)
+  })
+
+  it('hides the length of short messages from the ciphertext', async () => {
+    const [a, b] = await buildGroup(2)
+    const short = await a.mgr.encryptMessage('ok')
+    const longer = await a.mgr.encryptMessage('sounds good, see you at eight')
+    expect(short.payload.length).toBe(longer.payload.length)
+    expect((await b.mgr.decryptMessage('a', short.payload, short.epoch, short.counter)).text).toBe('ok')
+
+    a.mgr.setPaddingPolicy('none')
+    const unpadded = await a.mgr.encryptMessage('ok')
+    expect(unpadded.payload.length).toBeLessThan(short.payload.length)
+    expect((await b.mgr.decryptMessage('a', unpadded.payload, unpadded.epoch, unpadded.counter)).text).toBe('ok')
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { PendingBuffer, MAX_PENDING_FRAMES, PENDING_TIMEOUT_MS } from '../src/network/pending'
+import type { MessageFrame, TreeCommitFrame } from '../src/network/protocol'
+
+function message(epoch: number, counter: number = 0): MessageFrame {
+  return { type: 'message', peer_id: 'p', payload: 'AAAA', epoch, counter }
+}
+
+function commit(epoch: number): TreeCommitFrame {
+  return {
+    type: 'tree_commit',
+    peer_id: 'p',
+    tree_commit: { committerLeafPos: 0, leafPublicKey: '', path: [], epoch, treeHash: '', signature: '' }
+  }
+}
+
+describe('PendingBuffer', () => {
+  it('hands back the next commit and drops commits that are already behind', () => {
+    const buffer = new PendingBuffer()
+    buffer.add(commit(4))
+    buffer.add(commit(2))
+    buffer.add(commit(3))
+    expect(buffer.takeCommit(5)).toBeNull()
+    expect(buffer.size).toBe(0)
+
+    buffer.add(commit(7))
+    buffer.add(commit(6))
+    expect(buffer.takeCommit(6)?.tree_commit.epoch).toBe(6)
+    expect(buffer.takeCommit(7)?.tree_commit.epoch).toBe(7)
+  })
+
+  it('releases messages up to the current epoch in arrival order', () => {
+    const buffer = new PendingBuffer()
+    buffer.add(message(3, 1))
+    buffer.add(message(5))
+    buffer.add(message(3, 0))
+    expect(buffer.takeMessages(4).map(m => m.counter)).toEqual([1, 0])
+    expect(buffer.size).toBe(1)
+  })
+
+  it('evicts the oldest frame once full', () => {
+    const buffer = new PendingBuffer()
+    for (let i = 0; i < MAX_PENDING_FRAMES; i++) expect(buffer.add(message(2, i))).toBeNull()
+    const evicted = buffer.add(message(2, MAX_PENDING_FRAMES))
+    expect(evicted).toMatchObject({ counter: 0 })
+    expect(buffer.size).toBe(MAX_PENDING_FRAMES)
+  })
+
+  it('expires frames that waited too long', () => {
+    const buffer = new PendingBuffer()
+    buffer.add(message(2), 1000)
+    buffer.add(commit(3), 5000)
+    expect(buffer.nextExpiry()).toBe(1000 + PENDING_TIMEOUT_MS)
+    expect(buffer.expire(1000 + PENDING_TIMEOUT_MS)).toEqual([message(2)])
+    expect(buffer.nextExpiry()).toBe(5000 + PENDING_TIMEOUT_MS)
+    expect(buffer.expire(5000 + PENDING_TIMEOUT_MS)).toHaveLength(1)
+    expect(buffer.size).toBe(0)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { parseFrame, validateCommit, validateCommitForTree, validateWelcome } from '../src/network/protocol'
+import { buildGroup } from './helpers'
+
+function b64(bytes: number): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+describe('relay frame validation', () => {
+  it('accepts well-formed frames and narrows their type', () => {
+    const result = parseFrame(JSON.stringify({ type: 'message', peer_id: 'p1', payload: b64(40), epoch: 2, counter: 0 }))
+    expect(result.ok).toBe(true)
+    if (result.ok && result.frame.type === 'message') {
+      expect(result.frame.epoch).toBe(2)
+    }
+  })
+
+  it('rejects non-JSON and unknown frame types', () => {
+    expect(parseFrame('{nope').ok).toBe(false)
+    expect(parseFrame('[]').ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ type: 'surprise' }))).toEqual({ ok: false, error: 'Unknown frame type' })
+  })
+
+  it('rejects wrong field types', () => {
+    expect(parseFrame(JSON.stringify({ type: 'message', peer_id: 'p1', payload: b64(40), epoch: '2', counter: 0 })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ type: 'message', peer_id: 'p1', payload: b64(40), epoch: 1.5, counter: 0 })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ type: 'welcome', peer_id: 7 })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ type: 'welcome', peer_id: 'p1', is_creator: 'yes' })).ok).toBe(false)
+  })
+
+  it('checks key and signature lengths on peer announcements', () => {
+    const good = { type: 'peer_joined', peer_id: 'p2', public_key: b64(1952), pq_public_key: b64(1184), sig: b64(3309) }
+    expect(parseFrame(JSON.stringify(good)).ok).toBe(true)
+    expect(parseFrame(JSON.stringify({ ...good, public_key: b64(1951) })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...good, pq_public_key: b64(32) })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...good, sig: 'not*base64' })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...good, ec_public_key: b64(32) })).ok).toBe(true)
+    expect(parseFrame(JSON.stringify({ ...good, ec_public_key: b64(33) })).ok).toBe(false)
+  })
+
+  it('rejects commits embedded as something other than a JSON string', () => {
+    expect(parseFrame(JSON.stringify({ type: 'tree_commit', tree_commit: { path: [] } })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ type: 'tree_commit', tree_commit: '{"path":' })).ok).toBe(false)
+  })
+})
+
+describe('TreeKEM message validation', () => {
+  it('round-trips a real commit and welcome', async () => {
+    const [a, , c] = await buildGroup(3)
+    const commit = await a.mgr.initiateRekey()
+    expect(validateCommit(JSON.parse(JSON.stringify(commit)))).toEqual(commit)
+    expect(validateCommitForTree(commit, 3)).toBeNull()
+
+    const welcome = await a.mgr.generateWelcomeForPeer(c.id)
+    expect(validateWelcome(JSON.parse(JSON.stringify(welcome)))).toEqual(welcome)
+  })
+
+  it('rejects commits whose path does not fit the tree', async () => {
+    const [a] = await buildGroup(3)
+    const commit = await a.mgr.initiateRekey()
+    expect(validateCommitForTree({ ...commit, committerLeafPos: 5 }, 3)).toMatch(/outside the tree/)
+    expect(validateCommitForTree({ ...commit, path: commit.path.slice(1) }, 3)).toMatch(/does not match/)
+
+    const badRecipient = structuredClone(commit)
+    badRecipient.path[0].recipients[0].targetNodeIndex = 40
+    expect(validateCommitForTree(badRecipient, 3)).toMatch(/outside the tree/)
+  })
+
+  it('rejects welcomes with path secrets off the joiner path', async () => {
+    const [a, , c] = await buildGroup(3)
+    const welcome = await a.mgr.generateWelcomeForPeer(c.id)
+    expect(() => validateWelcome({ ...welcome, myLeafPos: 3 })).toThrow()
+    expect(() => validateWelcome({ ...welcome, pathSecrets: [{ ...welcome.pathSecrets[0], nodeIndex: 0 }] })).toThrow(/direct path/)
+    expect(() => validateWelcome({ ...welcome, unmergedLeaves: [[], [3]] })).toThrow('Invalid unmergedLeaves')
+  })
+})
@@ -1,4 +1,6 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
+import { CONTENT_TYPE_TEXT, CONTENT_TYPE_TYPING, MessageAuthenticationError, SkippedKeyEvictedError, base64ToUint8Array, uint8ArrayToBase64 } from '../src/crypto/crypto'
+import { SKIPPED_KEY_TTL_MS } from '../src/crypto/skippedKeys'
 import { buildGroup, type Member } from './helpers'
 
 describe('symmetric chain ratchet', () => {
@@ -8,7 +10,7 @@ describe('symmetric chain ratchet', () => {
     const sent = []
     for (const t of texts) sent.push(await a.mgr.encryptMessage(t))
     for (let i = 0; i < texts.length; i++) {
-      expect(await b.mgr.decryptMessage('a', sent[i].payload, sent[i].epoch, sent[i].counter)).toBe(texts[i])
+      expect((await b.mgr.decryptMessage('a', sent[i].payload, sent[i].epoch, sent[i].counter)).text).toBe(texts[i])
     }
   })
 
@@ -18,15 +20,34 @@ describe('symmetric chain ratchet', () => {
     const e1 = await a.mgr.encryptMessage('m1')
     const e2 = await a.mgr.encryptMessage('m2')
 
-    expect(await b.mgr.decryptMessage('a', e2.payload, e2.epoch, e2.counter)).toBe('m2')
-    expect(await b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).toBe('m0')
-    expect(await b.mgr.decryptMessage('a', e1.payload, e1.epoch, e1.counter)).toBe('m1')
+    expect((await b.mgr.decryptMessage('a', e2.payload, e2.epoch, e2.counter)).text).toBe('m2')
+    expect((await b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).text).toBe('m0')
+    expect((await b.mgr.decryptMessage('a', e1.payload, e1.epoch, e1.counter)).text).toBe('m1')
+  })
+
+  it('reports a late message whose skipped key has expired', async () => {
+    const [a, b] = await buildGroup(2)
+    const e0 = await a.mgr.encryptMessage('m0')
+    const e1 = await a.mgr.encryptMessage('m1')
+    expect((await b.mgr.decryptMessage('a', e1.payload, e1.epoch, e1.counter)).text).toBe('m1')
+    expect(b.mgr.getSkippedKeyMetrics().stored).toBe(1)
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      vi.setSystemTime(Date.now() + SKIPPED_KEY_TTL_MS)
+      await expect(
+        b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)
+      ).rejects.toBeInstanceOf(SkippedKeyEvictedError)
+    } finally {
+      vi.useRealTimers()
+    }
+    expect(b.mgr.getSkippedKeyMetrics()).toMatchObject({ stored: 0, expired: 1, missed: 1 })
   })
 
   it('rejects a replayed (already consumed) counter', async () => {
     const [a, b] = await buildGroup(2)
     const e0 = await a.mgr.encryptMessage('m0')
-    expect(await b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).toBe('m0')
+    expect((await b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).text).toBe('m0')
     await expect(
       b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)
     ).rejects.toThrow(/already consumed/)
@@ -53,9 +74,126 @@ describe('symmetric chain ratchet', () => {
     await b.mgr.receiveCommit(commit)
     expect(b.mgr.getEpoch()).toBe(oldEpoch + 1)
 
-    expect(await b.mgr.decryptMessage('a', e.payload, e.epoch, e.counter)).toBe('old-epoch-msg')
+    expect((await b.mgr.decryptMessage('a', e.payload, e.epoch, e.counter)).text).toBe('old-epoch-msg')
     await expect(
       b.mgr.decryptMessage('a', e.payload, oldEpoch + 5, e.counter)
     ).rejects.toThrow(/Unknown epoch/)
   })
 })
+
+describe('epoch retention', () => {
+  async function rekey(members: Member[]): Promise<void> {
+    const commit = await members[0].mgr.initiateRekey()
+    for (const m of members.slice(1)) await m.mgr.receiveCommit(commit)
+  }
+
+  it('decrypts late messages from every retained epoch and forgets older ones', async () => {
+    const members = await buildGroup(2)
+    const [a, b] = members
+    const sent = []
+    for (let i = 0; i < 4; i++) {
+      sent.push(await a.mgr.encryptMessage(`epoch ${i}`))
+      await rekey(members)
+    }
+
+    await expect(b.mgr.decryptMessage('a', sent[0].payload, sent[0].epoch, sent[0].counter)).rejects.toThrow(/Unknown epoch/)
+    for (const e of sent.slice(1)) {
+      expect((await b.mgr.decryptMessage('a', e.payload, e.epoch, e.counter)).text).toBe(`epoch ${e.epoch - sent[0].epoch}`)
+    }
+  })
+
+  it('zeroes the live chains a rekey or a welcome replaces', async () => {
+    const members = await buildGroup(3)
+    const [a, b] = members
+    type Chain = { chainKey: Uint8Array }
+    const liveKeys = (m: Member) => {
+      const internals = m.mgr as unknown as { myChainState: Chain; peerChainStates: Map<string, Chain> }
+      return [internals.myChainState.chainKey, ...Array.from(internals.peerChainStates.values(), chain => chain.chainKey)]
+    }
+    const e = await a.mgr.encryptMessage('before the rekey')
+    const before = [...liveKeys(a), ...liveKeys(b)]
+    await rekey(members)
+    expect(before.every(key => key.every(byte => byte === 0))).toBe(true)
+    expect((await b.mgr.decryptMessage('a', e.payload, e.epoch, e.counter)).text).toBe('before the rekey')
+
+    const beforeWelcome = liveKeys(b)
+    await b.mgr.receiveWelcome(await a.mgr.generateWelcomeForPeer('b'))
+    expect(beforeWelcome.every(key => key.every(byte => byte === 0))).toBe(true)
+  })
+
+  it('zeroes retained chains once they outlive the age limit', async () => {
+    const members = await buildGroup(2)
+    const [a, b] = members
+    b.mgr.setEpochRetention({ maxEpochs: 3, maxAgeMs: 20 })
+    const e = await a.mgr.encryptMessage('too late')
+    await rekey(members)
+
+    const internals = b.mgr as unknown as { retainedEpochs: Map<number, { chains: Map<string, { chainKey: Uint8Array }> }> }
+    const chainKey = internals.retainedEpochs.get(e.epoch)!.chains.get('a')!.chainKey
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(internals.retainedEpochs.size).toBe(0)
+    expect(chainKey.every(byte => byte === 0)).toBe(true)
+    await expect(b.mgr.decryptMessage('a', e.payload, e.epoch, e.counter)).rejects.toThrow(/Unknown epoch/)
+  })
+})
+
+describe('sender authentication', () => {
+  it('rejects a message forged on another member\'s chain without burning its key', async () => {
+    const [a, b, c] = await buildGroup(3)
+    const internals = c.mgr as unknown as {
+      myChainState: unknown
+      peerChainStates: Map<string, unknown>
+      peerLeafPositions: Map<string, number>
+      treeState: { myLeafPos: number }
+    }
+    internals.myChainState = internals.peerChainStates.get('a')
+    internals.treeState.myLeafPos = internals.peerLeafPositions.get('a')!
+
+    const forged = await c.mgr.encryptMessage('definitely from a')
+    await expect(
+      b.mgr.decryptMessage('a', forged.payload, forged.epoch, forged.counter)
+    ).rejects.toBeInstanceOf(MessageAuthenticationError)
+
+    const real = await a.mgr.encryptMessage('actually from a')
+    expect(real.counter).toBe(forged.counter)
+    expect((await b.mgr.decryptMessage('a', real.payload, real.epoch, real.counter)).text).toBe('actually from a')
+  })
+
+  it('binds the ciphertext to the room, sender, epoch and counter', async () => {
+    const [a, b, c] = await buildGroup(3)
+    const e0 = await a.mgr.encryptMessage('m0')
+    await expect(b.mgr.decryptMessage('c', e0.payload, e0.epoch, e0.counter)).rejects.toThrow()
+
+    const internals = b.mgr as unknown as { roomId: string }
+    internals.roomId = 'another-room'
+    await expect(b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).rejects.toThrow()
+    internals.roomId = ''
+
+    const relabelled = base64ToUint8Array(e0.payload)
+    relabelled[1] = CONTENT_TYPE_TYPING
+    await expect(b.mgr.decryptMessage('a', uint8ArrayToBase64(relabelled), e0.epoch, e0.counter)).rejects.toThrow()
+    relabelled[1] = 0xff
+    await expect(b.mgr.decryptMessage('a', uint8ArrayToBase64(relabelled), e0.epoch, e0.counter)).rejects.toThrow(/envelope/)
+    expect((await b.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).text).toBe('m0')
+    expect((await c.mgr.decryptMessage('a', e0.payload, e0.epoch, e0.counter)).text).toBe('m0')
+  })
+
+  it('carries the content type in the authenticated header', async () => {
+    const [a, b] = await buildGroup(2)
+    const text = await a.mgr.encryptMessage('hi')
+    const typing = await a.mgr.encryptMessage('{"kind":"typing"}', CONTENT_TYPE_TYPING)
+    expect(await b.mgr.decryptMessage('a', text.payload, text.epoch, text.counter)).toEqual({ text: 'hi', contentType: CONTENT_TYPE_TEXT })
+    expect((await b.mgr.decryptMessage('a', typing.payload, typing.epoch, typing.counter)).contentType).toBe(CONTENT_TYPE_TYPING)
+    await expect(a.mgr.encryptMessage('hi', 0)).rejects.toThrow(/content type/)
+  })
+
+  it('binds the signature to the claimed counter', async () => {
+    const [a, b] = await buildGroup(2)
+    const e0 = await a.mgr.encryptMessage('m0')
+    const e1 = await a.mgr.encryptMessage('m1')
+    await expect(
+      b.mgr.decryptMessage('a', e0.payload, e1.epoch, e1.counter)
+    ).rejects.toThrow()
+    expect((await b.mgr.decryptMessage('a', e1.payload, e1.epoch, e1.counter)).text).toBe('m1')
+  })
+})
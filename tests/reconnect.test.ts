@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { reconnectDelay } from '../src/network/websocket'
+import { GroupKeyManager } from '../src/crypto/crypto'
+import { buildGroup } from './helpers'
+
+describe('reconnect backoff', () => {
+  it('grows exponentially and stays within the jitter window', () => {
+    expect(reconnectDelay(0, () => 0)).toBe(250)
+    expect(reconnectDelay(0, () => 1)).toBe(500)
+    expect(reconnectDelay(3, () => 0)).toBe(2000)
+    expect(reconnectDelay(3, () => 1)).toBe(4000)
+  })
+
+  it('caps the delay at 30 seconds', () => {
+    expect(reconnectDelay(20, () => 1)).toBe(30000)
+    expect(reconnectDelay(20, () => 0)).toBe(15000)
+  })
+})
+
+describe('session resumption', () => {
+  it('re-announcing a known peer does not add a second leaf', async () => {
+    const [a, b] = await buildGroup(2)
+    const epoch = a.mgr.getEpoch()
+    expect(await a.mgr.addPeer(b.id, b.signPub, b.pqPub, b.sig, b.ecPub)).toBe(false)
+    expect(a.mgr.getPeerIds()).toEqual(['b'])
+
+    const enc = await b.mgr.encryptMessage('still here')
+    expect((await a.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).text).toBe('still here')
+    expect(a.mgr.getEpoch()).toBe(epoch)
+  })
+
+  it('restores exported group state only under the same identity', async () => {
+    const [a, b] = await buildGroup(2)
+    const state = JSON.parse(JSON.stringify(b.mgr.exportState()))
+    const reloaded = new GroupKeyManager(b.mgr.exportState()!.roomId, b.storage)
+    await reloaded.initialize()
+    expect(await reloaded.restoreState(a.mgr.exportState()!)).toBe(false)
+    expect(await reloaded.restoreState(state)).toBe(true)
+    expect(reloaded.getEpoch()).toBe(b.mgr.getEpoch())
+
+    const enc = await reloaded.encryptMessage('after reload')
+    expect((await a.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).text).toBe('after reload')
+  })
+
+  it('resetGroup drops all group state but keeps the identity', async () => {
+    const [a] = await buildGroup(2)
+    const identity = a.mgr.getMyPublicKey()
+    a.mgr.resetGroup()
+    expect(a.mgr.hasTreeState()).toBe(false)
+    expect(a.mgr.hasChain()).toBe(false)
+    expect(a.mgr.hasPeers()).toBe(false)
+    expect(a.mgr.getEpoch()).toBe(0)
+    expect(a.mgr.getMyPublicKey()).toBe(identity)
+  })
+})
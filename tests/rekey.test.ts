@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_REKEY_POLICY, policyFromFields, policyToFields, resolveRekeyPolicy, strictestPolicy, type RekeyPolicy } from '../src/network/rekey'
+import { parseFrame } from '../src/network/protocol'
+import { ChatConnection } from '../src/network/websocket'
+import { LocalRelay } from '../src/network/loopback'
+import { resetStorage, waitFor } from './helpers'
+
+function b64(bytes: number): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+async function connectAll(relay: LocalRelay, roomId: string, policies: Partial<RekeyPolicy>[]): Promise<ChatConnection[]> {
+  const conns: ChatConnection[] = []
+  for (const rekeyPolicy of policies) {
+    await resetStorage()
+    const conn = new ChatConnection(roomId, { transport: relay.transport, rekeyPolicy })
+    await conn.connect()
+    conns.push(conn)
+    if (conns.length === 1) continue
+    await waitFor(() => conns.every(c => c.canSend() && c.getPeerCount() === conns.length - 1))
+    await waitFor(() => new Set(conns.map(epochOf)).size === 1)
+  }
+  return conns
+}
+
+function epochOf(conn: ChatConnection): number {
+  return (conn as unknown as { keyManager: { getEpoch(): number } }).keyManager.getEpoch()
+}
+
+describe('rekey policy', { timeout: 30000 }, () => {
+  it('fills in defaults and rejects out-of-range settings', () => {
+    expect(resolveRekeyPolicy()).toEqual(DEFAULT_REKEY_POLICY)
+    expect(resolveRekeyPolicy({ messagesPerEpoch: 10 }).messagesPerEpoch).toBe(10)
+    expect(() => resolveRekeyPolicy({ messagesPerEpoch: 0 })).toThrow('Invalid messagesPerEpoch')
+    expect(() => resolveRekeyPolicy({ maxEpochAgeMs: 1000 })).toThrow('Invalid maxEpochAgeMs')
+  })
+
+  it('takes the strictest preference of every member', () => {
+    const loose: RekeyPolicy = { messagesPerEpoch: 100, maxEpochAgeMs: 120000, rekeyOnMembershipChange: false, rekeyOnResume: true }
+    const strict: RekeyPolicy = { messagesPerEpoch: 5, maxEpochAgeMs: 600000, rekeyOnMembershipChange: true, rekeyOnResume: false }
+    expect(strictestPolicy([loose, strict])).toEqual({ messagesPerEpoch: 5, maxEpochAgeMs: 120000, rekeyOnMembershipChange: true, rekeyOnResume: true })
+    expect(policyFromFields(policyToFields(loose))).toEqual(loose)
+  })
+
+  it('parses announced policies and rejects malformed ones', () => {
+    const base = { type: 'peer_key', peer_id: 'p2', public_key: b64(1952), pq_public_key: b64(1184) }
+    const fields = policyToFields(DEFAULT_REKEY_POLICY)
+    const result = parseFrame(JSON.stringify({ ...base, ...fields }))
+    expect(result.ok && result.frame.type === 'peer_key' && result.frame.rekey_policy).toEqual(fields)
+    expect(parseFrame(JSON.stringify({ ...base, ...fields, rekey_messages: 0 })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...base, ...fields, rekey_max_age: 1 })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...base, ...fields, rekey_on_resume: 'yes' })).ok).toBe(false)
+  })
+
+  it('rotates after the agreed number of messages from any sender', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await connectAll(relay, roomId, [{}, { messagesPerEpoch: 3 }])
+    expect(a.getRekeyPolicy().messagesPerEpoch).toBe(3)
+    const epoch = epochOf(a)
+
+    const sender = (a as unknown as { keyManager: { shouldInitiateRekey(): boolean } }).keyManager.shouldInitiateRekey() ? b : a
+    for (const text of ['one', 'two', 'three']) await sender.sendMessage(text)
+    await waitFor(() => epochOf(a) > epoch && epochOf(a) === epochOf(b))
+  })
+
+  it('counts only text messages toward the agreed number', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const [a, b] = await connectAll(relay, roomId, [{}, { messagesPerEpoch: 2 }])
+    const epoch = epochOf(a)
+    const counted = (conn: ChatConnection) => (conn as unknown as { messagesInEpoch: number }).messagesInEpoch
+
+    let typing = 0
+    let read = 0
+    a.on('typing', () => typing++)
+    a.on('read', () => read++)
+    for (let i = 0; i < 3; i++) {
+      b.sendTyping()
+      await b.markRead([`read-${i}`])
+    }
+    await waitFor(() => typing === 3 && read >= 1)
+    expect([counted(a), counted(b)]).toEqual([0, 0])
+
+    let delivered = false
+    a.on('delivery', ({ state }) => { if (state === 'delivered') delivered = true })
+    await a.sendMessage('counted')
+    await waitFor(() => delivered)
+    expect([counted(a), counted(b), epochOf(a), epochOf(b)]).toEqual([1, 1, epoch, epoch])
+  })
+
+  it('rotates a quiet epoch once it reaches the agreed maximum age', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const conns = await connectAll(relay, roomId, [{}, { maxEpochAgeMs: 60000 }])
+    const epoch = epochOf(conns[0])
+
+    for (const conn of conns) {
+      const internals = conn as unknown as { epochStartedAt: number; scheduleRekeyTimer(): void }
+      internals.epochStartedAt -= 60000
+      internals.scheduleRekeyTimer()
+    }
+    await waitFor(() => conns.every(conn => epochOf(conn) === epoch + 1))
+  })
+
+  it('keeps the epoch when a member leaves only if nobody asks for a membership rekey', async () => {
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const quiet = { rekeyOnMembershipChange: false }
+    const [a, b, c] = await connectAll(relay, roomId, [quiet, quiet, quiet])
+    const epoch = epochOf(a)
+
+    const received: string[] = []
+    a.on('message', ({ text }) => received.push(text))
+
+    c.disconnect()
+    await waitFor(() => a.getPeerCount() === 1 && b.getPeerCount() === 1)
+    await b.sendMessage('still here')
+    await waitFor(() => received.length === 1)
+    expect([epochOf(a), epochOf(b)]).toEqual([epoch, epoch])
+  })
+})
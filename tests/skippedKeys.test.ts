@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_SKIPPED_KEYS, MAX_SKIPPED_KEYS_PER_PEER, SKIPPED_KEY_TTL_MS, SkippedKeyStore } from '../src/crypto/skippedKeys'
+
+const key = {} as CryptoKey
+
+describe('SkippedKeyStore', () => {
+  it('hands back a stored key until it is deleted', () => {
+    const store = new SkippedKeyStore()
+    store.add('a', 1, 3, key, 0)
+    expect(store.get('a', 1, 3, 0)).toBe(key)
+    expect(store.get('a', 2, 3, 0)).toBeNull()
+    store.delete('a', 1, 3)
+    expect(store.get('a', 1, 3, 0)).toBeNull()
+    expect(store.wasEvicted('a', 1, 3)).toBe(false)
+  })
+
+  it('evicts a peer\'s oldest key past the per-peer cap', () => {
+    const store = new SkippedKeyStore()
+    for (let i = 0; i <= MAX_SKIPPED_KEYS_PER_PEER; i++) store.add('a', 1, i, key, 0)
+    store.add('b', 1, 0, key, 0)
+    expect(store.size).toBe(MAX_SKIPPED_KEYS_PER_PEER + 1)
+    expect(store.get('a', 1, 0, 0)).toBeNull()
+    expect(store.wasEvicted('a', 1, 0)).toBe(true)
+    expect(store.metrics()).toMatchObject({ evictedPerPeer: 1, evictedGlobal: 0, missed: 1 })
+  })
+
+  it('evicts the oldest key overall past the global cap', () => {
+    const store = new SkippedKeyStore()
+    for (let i = 0; i <= MAX_SKIPPED_KEYS; i++) store.add(`p${i % 10}`, 1, i, key, 0)
+    expect(store.size).toBe(MAX_SKIPPED_KEYS)
+    expect(store.wasEvicted('p0', 1, 0)).toBe(true)
+    expect(store.metrics().evictedGlobal).toBe(1)
+  })
+
+  it('expires keys after the TTL', () => {
+    const store = new SkippedKeyStore()
+    store.add('a', 1, 0, key, 0)
+    store.add('a', 1, 1, key, 1000)
+    expect(store.nextExpiry()).toBe(SKIPPED_KEY_TTL_MS)
+    store.expire(SKIPPED_KEY_TTL_MS)
+    expect(store.get('a', 1, 0, SKIPPED_KEY_TTL_MS)).toBeNull()
+    expect(store.get('a', 1, 1, SKIPPED_KEY_TTL_MS)).toBe(key)
+    expect(store.wasEvicted('a', 1, 0)).toBe(true)
+    expect(store.metrics()).toMatchObject({ stored: 1, expired: 1 })
+  })
+
+  it('discards whole epochs without reporting them as evicted', () => {
+    const store = new SkippedKeyStore()
+    store.add('a', 1, 0, key, 0)
+    store.add('a', 2, 0, key, 0)
+    store.discard((_, epoch) => epoch < 2)
+    expect(store.size).toBe(1)
+    expect(store.wasEvicted('a', 1, 0)).toBe(false)
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, rmSync, statSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createClient, LocalRelay, MemoryKeyValueStore, MemorySecureStore } from '../src/headless'
+import { FileKeyValueStore, FileSecureStore } from '../src/storage/fileStore'
+import { getOrCreateDeviceKey } from '../src/crypto/deviceKey'
+import { waitFor } from './helpers'
+
+describe('file stores', () => {
+  it('persist values and keys across instances', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'parrhesia-'))
+    try {
+      const kv = new FileKeyValueStore(dir)
+      kv.setItem('a', '1')
+      kv.setItem('b', '2')
+      kv.removeItem('b')
+      const reopened = new FileKeyValueStore(dir)
+      expect(reopened.getItem('a')).toBe('1')
+      expect(reopened.getItem('b')).toBeNull()
+      expect(statSync(join(dir, 'store.json')).mode & 0o077).toBe(0)
+
+      const secure = new FileSecureStore(dir)
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+      await secure.putKey('device', key)
+      const loaded = await new FileSecureStore(dir).getKey('device')
+      expect(loaded?.extractable).toBe(false)
+
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode('hi'))
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, loaded!, ciphertext)
+      expect(new TextDecoder().decode(plaintext)).toBe('hi')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('headless client', { timeout: 30000 }, () => {
+  it('gives each client in one process its own stores and identity', async () => {
+    const storage = { keyValue: new MemoryKeyValueStore(), secure: new MemorySecureStore() }
+    const other = { keyValue: new MemoryKeyValueStore(), secure: new MemorySecureStore() }
+    const relay = new LocalRelay()
+    const roomId = relay.createRoom()
+    const a = createClient(roomId, { storage, transport: relay.transport })
+    const b = createClient(roomId, { storage: other, transport: relay.transport })
+    const received: string[] = []
+    b.on('message', ({ text }) => received.push(text))
+
+    await a.connect()
+    await b.connect()
+    await waitFor(() => a.canSend() && b.canSend())
+    await a.sendMessage('from a bot')
+    await waitFor(() => received.length === 1)
+    expect(received).toEqual(['from a bot'])
+    expect(a.getMyPublicKey()).not.toBe(b.getMyPublicKey())
+    expect(storage.keyValue.getItem('parrhesia-tofu')).not.toBeNull()
+    expect(other.keyValue.getItem('parrhesia-tofu')).not.toBeNull()
+    expect(await getOrCreateDeviceKey(storage)).toBe(await storage.secure.getKey('device-key'))
+    expect(await storage.secure.getKey('device-key')).not.toBe(await other.secure.getKey('device-key'))
+    expect(await getOrCreateDeviceKey()).not.toBe(await storage.secure.getKey('device-key'))
+
+    a.disconnect()
+    b.disconnect()
+  })
+})
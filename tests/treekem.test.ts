@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest'
-import { buildGroup, type Member } from './helpers'
+import { describe, it, expect, vi } from 'vitest'
+import { EpochForkError, MessageAuthenticationError, compareCommitRanks } from '../src/crypto/crypto'
+import { generateGroupSafetyNumber } from '../src/crypto/tofu'
+import type { TreeKemCommit } from '../src/crypto/treekem'
+import { buildGroup, commitInTurn, joinGroup, makeMember, type Member } from './helpers'
 
 async function expectFullConvergence(members: Member[]): Promise<void> {
   for (const sender of members) {
@@ -7,7 +10,7 @@ async function expectFullConvergence(members: Member[]): Promise<void> {
     const { payload, epoch, counter } = await sender.mgr.encryptMessage(text)
     for (const receiver of members) {
       if (receiver.id === sender.id) continue
-      const got = await receiver.mgr.decryptMessage(sender.id, payload, epoch, counter)
+      const { text: got } = await receiver.mgr.decryptMessage(sender.id, payload, epoch, counter)
       expect(got).toBe(text)
     }
   }
@@ -51,8 +54,8 @@ describe('TreeKEM group key convergence', () => {
     }
 
     const enc = await b.mgr.encryptMessage('after-rekey')
-    expect(await a.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).toBe('after-rekey')
-    expect(await c.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).toBe('after-rekey')
+    expect((await a.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).text).toBe('after-rekey')
+    expect((await c.mgr.decryptMessage('b', enc.payload, enc.epoch, enc.counter)).text).toBe('after-rekey')
   })
 
   it('excludes a removed middle member while the rest still converge', async () => {
@@ -66,8 +69,8 @@ describe('TreeKEM group key convergence', () => {
     await d.mgr.receiveCommit(commit)
 
     const enc = await d.mgr.encryptMessage('post-removal')
-    expect(await a.mgr.decryptMessage('d', enc.payload, enc.epoch, enc.counter)).toBe('post-removal')
-    expect(await b.mgr.decryptMessage('d', enc.payload, enc.epoch, enc.counter)).toBe('post-removal')
+    expect((await a.mgr.decryptMessage('d', enc.payload, enc.epoch, enc.counter)).text).toBe('post-removal')
+    expect((await b.mgr.decryptMessage('d', enc.payload, enc.epoch, enc.counter)).text).toBe('post-removal')
     await expect(
       c.mgr.decryptMessage('d', enc.payload, enc.epoch, enc.counter)
     ).rejects.toThrow()
@@ -82,9 +85,188 @@ describe('TreeKEM group key convergence', () => {
     await b.mgr.receiveCommit(commit)
 
     const enc = await a.mgr.encryptMessage('after removal')
-    expect(await b.mgr.decryptMessage('a', enc.payload, enc.epoch, enc.counter)).toBe('after removal')
+    expect((await b.mgr.decryptMessage('a', enc.payload, enc.epoch, enc.counter)).text).toBe('after removal')
     await expect(
       c.mgr.decryptMessage('a', enc.payload, enc.epoch, enc.counter)
     ).rejects.toThrow()
   })
 })
+
+describe('commit and welcome authentication', () => {
+  it('rejects a tampered commit without touching state, then accepts the real one', async () => {
+    const [a, b] = await buildGroup(3)
+    const commit = await a.mgr.initiateRekey()
+    const tampered = { ...commit, path: commit.path.map((entry, i) => i === 0 ? { ...entry, recipients: [] } : entry) }
+
+    await expect(b.mgr.receiveCommit(tampered)).rejects.toBeInstanceOf(MessageAuthenticationError)
+    expect(b.mgr.getEpoch()).toBe(2)
+
+    await b.mgr.receiveCommit(commit)
+    expect(b.mgr.getEpoch()).toBe(3)
+    expect(await b.mgr.receiveCommit(commit)).toBe('ignored')
+  })
+
+  it('rejects a commit that claims another member\'s leaf', async () => {
+    const [, b, c] = await buildGroup(3)
+    const commit = await c.mgr.initiateRekey()
+    await expect(
+      b.mgr.receiveCommit({ ...commit, committerLeafPos: 0 })
+    ).rejects.toBeInstanceOf(MessageAuthenticationError)
+  })
+
+  it('binds commits to the room', async () => {
+    const [a, b] = await buildGroup(2)
+    ;(b.mgr as unknown as { roomId: string }).roomId = 'another-room'
+    const commit = await a.mgr.initiateRekey()
+    await expect(b.mgr.receiveCommit(commit)).rejects.toBeInstanceOf(MessageAuthenticationError)
+  })
+
+  it('accepts only welcomes signed by a known member for the described tree', async () => {
+    const [a, b] = await buildGroup(2)
+    const c = await makeMember('c', false, 'a')
+    for (const m of [a, b]) await m.mgr.addPeer('c', c.signPub, c.pqPub, c.sig, c.ecPub)
+    for (const m of [a, b]) await c.mgr.addPeer(m.id, m.signPub, m.pqPub, m.sig, m.ecPub)
+    await b.mgr.receiveCommit(await a.mgr.initiateRekey())
+    const welcome = await a.mgr.generateWelcomeForPeer('c')
+
+    await expect(c.mgr.receiveWelcome({ ...welcome, signerLeafPos: 1 })).rejects.toBeInstanceOf(MessageAuthenticationError)
+    await expect(c.mgr.receiveWelcome({ ...welcome, numLeaves: 4 })).rejects.toBeInstanceOf(MessageAuthenticationError)
+    await expect(c.mgr.receiveWelcome({ ...welcome, transcriptHash: btoa('x'.repeat(32)) })).rejects.toBeInstanceOf(MessageAuthenticationError)
+    expect(c.mgr.hasTreeState()).toBe(false)
+
+    await c.mgr.receiveWelcome(welcome)
+    await expectFullConvergence([a, b, c])
+  })
+
+  it('re-welcomes a member whose leaf key rotated in its own commit', async () => {
+    const members = await buildGroup(3)
+    const [a, b, c] = members
+    const commit = await b.mgr.initiateRekey()
+    await a.mgr.receiveCommit(commit)
+    await c.mgr.receiveCommit(commit)
+
+    await b.mgr.receiveWelcome(await a.mgr.generateWelcomeForPeer('b'))
+    expect(await b.mgr.getTreeHash()).toBe(await a.mgr.getTreeHash())
+    await commitInTurn([c, a, b])
+    await expectFullConvergence(members)
+  })
+})
+
+describe('group safety number', () => {
+  async function safetyNumbers(members: Member[]): Promise<string[]> {
+    return Promise.all(members.map(async m => generateGroupSafetyNumber((await m.mgr.getEpochAuthenticator())!)))
+  }
+
+  it('is the same for every member and changes with each commit', async () => {
+    const members = await buildGroup(4)
+    const before = await safetyNumbers(members)
+    expect(new Set(before).size).toBe(1)
+    expect(before[0]).toMatch(/^\d{5}( \d{5}){5}$/)
+
+    const commit = await members[2].mgr.initiateRekey()
+    for (const m of members) if (m !== members[2]) await m.mgr.receiveCommit(commit)
+    const after = await safetyNumbers(members)
+    expect(new Set(after).size).toBe(1)
+    expect(after[0]).not.toBe(before[0])
+  })
+
+  it('differs for a member that followed another commit history', async () => {
+    const [a, b] = await buildGroup(2)
+    const [c, d] = await buildGroup(2)
+    expect((await safetyNumbers([a, b]))[0]).not.toBe((await safetyNumbers([c, d]))[0])
+    expect(a.mgr.getEpoch()).toBe(c.mgr.getEpoch())
+  })
+})
+
+describe('concurrent commits', () => {
+  it('ranks commits by committer leaf, then by hash', () => {
+    expect(compareCommitRanks({ committerLeafPos: 1, hash: 'z' }, { committerLeafPos: 2, hash: 'a' })).toBeLessThan(0)
+    expect(compareCommitRanks({ committerLeafPos: 1, hash: 'b' }, { committerLeafPos: 1, hash: 'a' })).toBeGreaterThan(0)
+    expect(compareCommitRanks({ committerLeafPos: 1, hash: 'a' }, { committerLeafPos: 1, hash: 'a' })).toBe(0)
+  })
+
+  it('converges on the same winner whatever order the commits arrive in', async () => {
+    const members = await buildGroup(4)
+    const [a, b, c, d] = members
+    const fromB = await b.mgr.initiateRekey()
+    const fromC = await c.mgr.initiateRekey()
+
+    expect(await a.mgr.receiveCommit(fromC)).toBe('applied')
+    expect(await a.mgr.receiveCommit(fromB)).toBe('replaced')
+    expect(await d.mgr.receiveCommit(fromB)).toBe('applied')
+    expect(await d.mgr.receiveCommit(fromC)).toBe('ignored')
+    expect(await b.mgr.receiveCommit(fromC)).toBe('ignored')
+    expect(await c.mgr.receiveCommit(fromB)).toBe('replaced')
+
+    for (const m of members) expect(m.mgr.getEpoch()).toBe(4)
+    expect(new Set(await Promise.all(members.map(m => m.mgr.getTreeHash()))).size).toBe(1)
+    await expectFullConvergence(members)
+  })
+
+  it('reports a fork when commits were missed or membership changed since', async () => {
+    const [a, b, c] = await buildGroup(3)
+    const first = await a.mgr.initiateRekey()
+    const second = await a.mgr.initiateRekey()
+    await expect(b.mgr.receiveCommit(second)).rejects.toBeInstanceOf(EpochForkError)
+
+    await c.mgr.receiveCommit(first)
+    c.mgr.removePeer('b')
+    const rival = await b.mgr.initiateRekey()
+    await expect(c.mgr.receiveCommit(rival)).rejects.toBeInstanceOf(EpochForkError)
+  })
+
+  it('leaves the epoch and tree alone when a rekey fails partway', async () => {
+    const members = await buildGroup(3)
+    const [a, b] = members
+    const treeHash = await a.mgr.getTreeHash()
+    vi.spyOn(a.mgr as unknown as { sign(data: Uint8Array): Promise<Uint8Array> }, 'sign').mockRejectedValueOnce(new Error('Crypto worker failed'))
+    await expect(a.mgr.initiateRekey()).rejects.toThrow('Crypto worker failed')
+
+    expect(a.mgr.getEpoch()).toBe(2)
+    expect(await a.mgr.getTreeHash()).toBe(treeHash)
+    await expectFullConvergence(members)
+
+    const commit = await a.mgr.initiateRekey()
+    for (const m of members.slice(1)) expect(await m.mgr.receiveCommit(commit)).toBe('applied')
+    expect(b.mgr.getEpoch()).toBe(3)
+    await expectFullConvergence(members)
+  })
+})
+
+describe('commit size', { timeout: 120000 }, () => {
+  function recipientCount(commit: TreeKemCommit): number {
+    return commit.path.reduce((n, entry) => n + entry.recipients.length, 0)
+  }
+
+  it('encrypts once per level of an intact tree', async () => {
+    const sizes: Record<number, number> = {}
+    for (const n of [4, 8, 16]) {
+      const members = await buildGroup(n)
+      const before = recipientCount((await commitInTurn(members))[0])
+      const commit = await members[0].mgr.initiateRekey()
+      for (const m of members.slice(1)) await m.mgr.receiveCommit(commit)
+      expect(before).toBe(n - 1)
+      expect(recipientCount(commit)).toBe(Math.log2(n))
+      sizes[n] = JSON.stringify(commit).length
+      await expectFullConvergence(members)
+    }
+    expect(sizes[16] / sizes[8]).toBeLessThan(1.5)
+    expect(sizes[8] / sizes[4]).toBeLessThan(1.6)
+  })
+
+  it('reaches a new member through its leaf until it commits', async () => {
+    const members = await buildGroup(3)
+    await commitInTurn(members)
+    const d = await makeMember('d', false, 'a')
+    const joined = await joinGroup(members, d)
+    expect(joined.path.map(entry => entry.recipients.map(r => r.targetNodeIndex))).toEqual([[2], [5, 6]])
+    await expectFullConvergence(members)
+
+    const [commit] = await commitInTurn([d, ...members.slice(0, 3)])
+    const next = await members[0].mgr.initiateRekey()
+    for (const m of members.slice(1)) await m.mgr.receiveCommit(next)
+    expect(commit.path.map(entry => entry.recipients.length)).toEqual([1, 1])
+    expect(next.path.map(entry => entry.recipients.map(r => r.targetNodeIndex))).toEqual([[2], [5]])
+    await expectFullConvergence(members)
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { incompatibility, negotiate, supports, type Capabilities } from '../src/network/version'
+import { parseFrame } from '../src/network/protocol'
+import { ChatConnection } from '../src/network/websocket'
+import { LocalRelay } from '../src/network/loopback'
+import { waitFor } from './helpers'
+
+const v1: Capabilities = { protocolVersions: [1], cipherSuites: [1] }
+const v12: Capabilities = { protocolVersions: [1, 2], cipherSuites: [1, 2] }
+const v2: Capabilities = { protocolVersions: [2], cipherSuites: [2] }
+
+describe('protocol version negotiation', { timeout: 30000 }, () => {
+  it('picks the highest version every member supports', () => {
+    expect(negotiate([v12, v12])).toEqual({ protocolVersion: 2, cipherSuite: 2 })
+    expect(negotiate([v12, v12, v1])).toEqual({ protocolVersion: 1, cipherSuite: 1 })
+  })
+
+  it('finds no common version for disjoint members', () => {
+    expect(negotiate([v1, v2])).toBeNull()
+    expect(incompatibility(v1, v2)).toBe('protocol')
+    expect(incompatibility(v1, { protocolVersions: [1], cipherSuites: [2] })).toBe('cipher_suite')
+    expect(incompatibility(v1, v12)).toBeNull()
+  })
+
+  it('checks a group version against local support', () => {
+    expect(supports(v12, { protocolVersion: 2, cipherSuite: 1 })).toBe(true)
+    expect(supports(v1, { protocolVersion: 2, cipherSuite: 1 })).toBe(false)
+  })
+
+  it('parses advertised versions and rejects malformed lists', () => {
+    const base = { type: 'welcome', peer_id: 'p1' }
+    expect(parseFrame(JSON.stringify({ ...base, protocol_versions: [1, 2] })).ok).toBe(true)
+    expect(parseFrame(JSON.stringify({ ...base, protocol_versions: [] })).ok).toBe(false)
+    expect(parseFrame(JSON.stringify({ ...base, protocol_versions: ['1'] })).ok).toBe(false)
+  })
+
+  it('refuses to join through a relay with no common protocol version', async () => {
+    const relay = new LocalRelay({ protocolVersions: [99] })
+    const roomId = relay.createRoom()
+    const notices: string[] = []
+    const conn = new ChatConnection(roomId, { transport: relay.transport })
+    conn.on('notice', ({ code }) => notices.push(code))
+    await conn.connect()
+    await waitFor(() => conn.getConnectionState() === 'disconnected')
+    expect(notices).toContain('relay_incompatible')
+  })
+})